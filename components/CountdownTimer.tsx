@@ -0,0 +1,44 @@
+import React, { useState, useEffect } from 'react';
+import { RoundTimer } from '../types';
+import { getRemainingMs, isTimerRunning, formatCountdown } from '../services/roundTimer';
+
+// Re-renders a few times a second while the timer runs, so the display never skips a second
+export const useRemainingMs = (timer?: RoundTimer) => {
+  const [, setTick] = useState(0);
+  const running = isTimerRunning(timer);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setTick(t => t + 1), 250);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  return timer ? getRemainingMs(timer) : null;
+};
+
+interface CountdownTimerProps {
+  timer?: RoundTimer;
+  variant?: 'light' | 'dark';
+  className?: string;
+}
+
+export const CountdownTimer: React.FC<CountdownTimerProps> = ({ timer, variant = 'light', className = '' }) => {
+  const remaining = useRemainingMs(timer);
+  if (remaining === null) return null;
+
+  const paused = !isTimerRunning(timer) && remaining > 0;
+  // Turns red in the last tenth of the time, or the last 10 seconds for short limits
+  const urgent = remaining <= Math.max(10000, timer!.durationMs / 10);
+  const colour = remaining === 0
+    ? 'text-gray-400'
+    : urgent
+      ? 'text-red-500'
+      : variant === 'dark' ? 'text-white' : 'text-gray-900';
+
+  return (
+    <span className={`font-mono font-bold tabular-nums ${colour} ${urgent && !paused && remaining > 0 ? 'animate-pulse' : ''} ${className}`}>
+      {formatCountdown(remaining)}
+      {paused && <span className="ml-2 text-xs font-sans uppercase tracking-wide text-amber-500 align-middle">Paused</span>}
+    </span>
+  );
+};
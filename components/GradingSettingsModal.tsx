@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './Button';
+import { GradingProviderId } from '../services/aiGrading';
+import { gradingSettings, GradingSettings, GRADING_PROVIDERS, getGradingProvider } from '../services/gradingService';
+
+interface GradingSettingsModalProps {
+  onClose: () => void;
+}
+
+export const GradingSettingsModal: React.FC<GradingSettingsModalProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<GradingSettings>(gradingSettings.getSettings());
+
+  useEffect(() => gradingSettings.subscribe(setSettings), []);
+
+  const provider = getGradingProvider(settings.provider);
+
+  const setModel = (model: string) => gradingSettings.update({ models: { ...settings.models, [provider.id]: model } });
+  const setApiKey = (key: string) => gradingSettings.update({ apiKeys: { ...settings.apiKeys, [provider.id]: key } });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-md shadow-2xl">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h3 className="font-bold text-gray-900">AI Grading Settings</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+        </div>
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+            <select
+              value={settings.provider}
+              onChange={(e) => gradingSettings.update({ provider: e.target.value as GradingProviderId })}
+              className="w-full p-2 border rounded-md text-sm"
+            >
+              {GRADING_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+
+          {provider.id === 'mock' ? (
+            <p className="text-xs text-gray-500 bg-gray-50 p-3 rounded">
+              Marks with the offline lifting detector and keyword matching against the marking scheme. No network or key needed; the same answer always gets the same mark.
+            </p>
+          ) : (
+            <>
+              {provider.id === 'openai' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Endpoint URL</label>
+                  <input
+                    type="text"
+                    value={settings.baseUrl}
+                    onChange={(e) => gradingSettings.update({ baseUrl: e.target.value })}
+                    className="w-full p-2 border rounded-md text-sm font-mono"
+                  />
+                  <p className="text-xs text-gray-400 mt-1">Base URL ending in /v1, e.g. a local Ollama or LM Studio server.</p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+                <input
+                  type="text"
+                  value={settings.models[provider.id] || ''}
+                  placeholder={provider.defaultModel}
+                  onChange={(e) => setModel(e.target.value)}
+                  className="w-full p-2 border rounded-md text-sm font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  API Key {!provider.needsApiKey && <span className="text-gray-400 font-normal">(optional)</span>}
+                </label>
+                <input
+                  type="password"
+                  value={settings.apiKeys[provider.id] || ''}
+                  placeholder={provider.id === 'gemini' && process.env.API_KEY ? 'Using key from server build' : ''}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  className="w-full p-2 border rounded-md text-sm font-mono"
+                />
+                <p className="text-xs text-gray-400 mt-1">Stored in this browser only.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Requests per minute</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.requestsPerMinute}
+                  onChange={(e) => gradingSettings.update({ requestsPerMinute: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="w-24 p-2 border rounded-md text-sm"
+                />
+                <p className="text-xs text-gray-400 mt-1">Grading requests are spaced out to stay under this, e.g. 10 for Gemini's free tier.</p>
+              </div>
+            </>
+          )}
+        </div>
+        <div className="p-4 border-t flex justify-end">
+          <Button size="sm" onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
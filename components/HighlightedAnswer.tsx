@@ -0,0 +1,20 @@
+import React from 'react';
+import { LiftedPhrase } from '../types';
+
+// Marks the phrases the lifting detector found copied from the source
+export const HighlightedAnswer: React.FC<{ text: string; phrases: LiftedPhrase[] }> = ({ text, phrases }) => {
+  if (phrases.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  [...phrases].sort((a, b) => a.start - b.start).forEach((phrase, i) => {
+    if (phrase.start > cursor) parts.push(text.slice(cursor, phrase.start));
+    parts.push(
+      <mark key={i} className="bg-red-100 text-red-900 rounded px-0.5" title="Lifted from the source">
+        {text.slice(phrase.start, phrase.end)}
+      </mark>
+    );
+    cursor = phrase.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { ArchivedRound, StudentResponse } from '../types';
+import { Button } from './Button';
+import { HighlightedAnswer } from './HighlightedAnswer';
+import { backend } from '../services/mockBackend';
+import { groupHistory } from '../services/historyStore';
+import { formatLineReference } from '../services/passageService';
+
+interface HistoryBrowserModalProps {
+  onClose: () => void;
+  onExportCsv: (round: ArchivedRound) => void;
+  onPrintReport: (round: ArchivedRound) => void;
+}
+
+/**
+ * Every archived round from every class, filed by class and day. A round opens read-only;
+ * from there an answer can go back on the projector, or the whole round can be resumed.
+ */
+export const HistoryBrowserModal: React.FC<HistoryBrowserModalProps> = ({ onClose, onExportCsv, onPrintReport }) => {
+  const [rounds, setRounds] = useState<ArchivedRound[]>(backend.getArchivedRounds());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [classFilter, setClassFilter] = useState('');
+
+  useEffect(() => backend.subscribeArchive(setRounds), []);
+
+  const groups = groupHistory(rounds).filter(g => !classFilter || g.className === classFilter);
+  const selected = rounds.find(r => r.id === selectedId);
+  const responses = selected
+    ? (Object.values(selected.students) as StudentResponse[]).sort((a, b) => a.studentName.localeCompare(b.studentName))
+    : [];
+
+  const handleResume = (round: ArchivedRound) => {
+    if (!confirm('Resume this round? The current round is archived first, and submissions stay closed until you reopen them.')) return;
+    backend.resumeArchivedRound(round);
+    onClose();
+  };
+
+  const handleDelete = (round: ArchivedRound) => {
+    if (!confirm('Delete this round from the history? This cannot be undone.')) return;
+    backend.deleteArchivedRound(round.id);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-5xl h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div className="flex items-center gap-4">
+            <h3 className="font-bold text-gray-900">Session History ({rounds.length} rounds)</h3>
+            <select value={classFilter} onChange={(e) => setClassFilter(e.target.value)} className="border rounded p-1 text-sm">
+              <option value="">All classes</option>
+              {groupHistory(rounds).map(g => <option key={g.className} value={g.className}>{g.className}</option>)}
+            </select>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-80 border-r overflow-y-auto p-3 space-y-4">
+            {groups.length === 0 && <p className="text-sm text-gray-400 p-2">No archived rounds yet.</p>}
+            {groups.map(group => (
+              <div key={group.className}>
+                <h4 className="text-xs font-bold text-gray-500 uppercase mb-1">{group.className}</h4>
+                {group.days.map(day => (
+                  <div key={day.date} className="mb-2">
+                    <p className="text-xs text-gray-400 mb-1">{day.date}</p>
+                    <ul className="space-y-1">
+                      {day.rounds.map(round => (
+                        <li key={round.id}>
+                          <button
+                            onClick={() => setSelectedId(round.id)}
+                            className={`w-full text-left p-2 rounded text-sm ${round.id === selectedId ? 'bg-indigo-50 text-indigo-900' : 'hover:bg-gray-50 text-gray-700'}`}
+                          >
+                            <span className="block truncate">{round.prompt || '(No prompt)'}</span>
+                            <span className="text-xs text-gray-400">
+                              {Object.keys(round.students).length} responses · {new Date(round.archivedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4">
+            {!selected ? (
+              <p className="text-sm text-gray-400 text-center mt-20">Pick a round to see its answers.</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <p className="text-xs text-gray-400">
+                      {selected.className || 'Unnamed class'}{selected.roomCode && ` · room ${selected.roomCode}`} · {new Date(selected.archivedAt).toLocaleString()}
+                    </p>
+                    <h4 className="text-lg font-semibold text-gray-900">{selected.prompt || '(No prompt)'}</h4>
+                    {selected.passage && (
+                      <p className="text-xs text-gray-500">
+                        Passage: {selected.passage.title || 'Untitled'}{selected.passage.targetLines ? `, ${formatLineReference(selected.passage)}` : ''}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => onExportCsv(selected)} className="text-xs">CSV</Button>
+                    <Button variant="ghost" size="sm" onClick={() => onPrintReport(selected)} className="text-xs">Print</Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(selected)} className="text-xs text-red-600 hover:bg-red-50">Delete</Button>
+                    <Button size="sm" onClick={() => handleResume(selected)}>Resume Round</Button>
+                  </div>
+                </div>
+                {selected.modelAnswer && (
+                  <div className="bg-green-50 rounded-lg p-3 border border-green-100 text-sm">
+                    <span className="text-xs font-bold text-green-700 uppercase">Model Answer: </span>
+                    <span className="text-green-900">{selected.modelAnswer}</span>
+                  </div>
+                )}
+                <ul className="space-y-2">
+                  {responses.map(response => (
+                    <li key={response.id} className="border rounded-lg p-3">
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="font-medium text-gray-900 text-sm">{response.studentName}</span>
+                        <div className="flex items-center gap-2">
+                          {response.lifting && <span className="text-xs text-gray-500">{response.lifting.percentage}% lifted</span>}
+                          <span className="px-2 py-0.5 rounded text-xs font-bold bg-gray-100 text-gray-800">
+                            {response.score !== null ? `${response.score} / ${selected.maxScore}` : 'Unmarked'}
+                          </span>
+                          <button
+                            onClick={() => backend.projectArchivedAnswer(selected, response.id)}
+                            className="text-xs text-indigo-600 hover:underline"
+                          >
+                            Project
+                          </button>
+                        </div>
+                      </div>
+                      <p className="text-gray-800 text-sm">
+                        <HighlightedAnswer text={response.text} phrases={response.lifting?.phrases || []} />
+                      </p>
+                      {response.teacherComment && <p className="text-xs text-gray-500 mt-1">Comment: {response.teacherComment}</p>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
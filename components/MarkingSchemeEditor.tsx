@@ -0,0 +1,44 @@
+import React from 'react';
+import { MarkingPoint } from '../types';
+import { createMarkingPoint } from '../services/markingScheme';
+
+interface MarkingSchemeEditorProps {
+  points: MarkingPoint[];
+  onChange: (points: MarkingPoint[]) => void;
+}
+
+export const MarkingSchemeEditor: React.FC<MarkingSchemeEditorProps> = ({ points, onChange }) => {
+  const updatePoint = (id: string, changes: Partial<MarkingPoint>) => {
+    onChange(points.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  return (
+    <div className="space-y-1">
+      {points.map((point, i) => (
+        <div key={point.id} className="flex items-center gap-1">
+          <span className="text-xs text-gray-400 w-4">{i + 1}.</span>
+          <input
+            type="text"
+            value={point.text}
+            onChange={(e) => updatePoint(point.id, { text: e.target.value })}
+            className="flex-1 min-w-0 border rounded p-1 text-sm"
+            placeholder="Creditable point"
+          />
+          <input
+            type="number"
+            min="1"
+            max="10"
+            value={point.marks}
+            onChange={(e) => updatePoint(point.id, { marks: parseInt(e.target.value) || 1 })}
+            className="w-12 border rounded p-1 text-center text-sm"
+            title="Marks"
+          />
+          <button onClick={() => onChange(points.filter(p => p.id !== point.id))} className="text-gray-400 hover:text-red-600 px-1">✕</button>
+        </div>
+      ))}
+      <button onClick={() => onChange([...points, createMarkingPoint()])} className="text-xs text-indigo-600 hover:underline">
+        + Add point
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from 'react';
+import { SourcePassage } from '../types';
+import { getPassageLines, isTargetLine, formatLineReference } from '../services/passageService';
+
+interface PassageViewerProps {
+  passage: SourcePassage;
+  variant?: 'light' | 'dark';
+  className?: string;
+  onLineClick?: (lineNumber: number, extend: boolean) => void;
+}
+
+export const PassageViewer: React.FC<PassageViewerProps> = ({
+  passage,
+  variant = 'light',
+  className = '',
+  onLineClick,
+}) => {
+  const firstTargetRef = useRef<HTMLDivElement>(null);
+  const lines = getPassageLines(passage);
+  const isDark = variant === 'dark';
+
+  // Keep the highlighted lines in view when the passage is longer than the panel
+  useEffect(() => {
+    firstTargetRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [passage.targetLines?.start, passage.targetLines?.end]);
+
+  return (
+    <div className={`${isDark ? 'bg-gray-900 text-gray-200' : 'bg-white text-gray-800 border border-gray-200'} rounded-xl flex flex-col ${className}`}>
+      <div className={`flex justify-between items-center px-4 py-2 border-b ${isDark ? 'border-gray-700' : 'border-gray-100'}`}>
+        <span className={`text-xs font-bold uppercase tracking-wider ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          {passage.title || 'Source Passage'}
+        </span>
+        {passage.targetLines && (
+          <span className={`text-xs font-semibold ${isDark ? 'text-yellow-300' : 'text-yellow-700'}`}>
+            {formatLineReference(passage)}
+          </span>
+        )}
+      </div>
+      <div className="overflow-y-auto p-2 font-serif leading-relaxed">
+        {lines.map((line, i) => {
+          const lineNumber = i + 1;
+          const highlighted = isTargetLine(passage, lineNumber);
+          return (
+            <div
+              key={i}
+              ref={highlighted && lineNumber === passage.targetLines?.start ? firstTargetRef : undefined}
+              onClick={onLineClick ? (e) => onLineClick(lineNumber, e.shiftKey) : undefined}
+              className={`flex gap-3 px-2 rounded ${
+                highlighted ? (isDark ? 'bg-yellow-500 bg-opacity-20 text-white' : 'bg-yellow-100 text-gray-900') : ''
+              } ${onLineClick ? 'cursor-pointer hover:bg-indigo-50' : ''}`}
+            >
+              <span className={`w-8 shrink-0 text-right select-none font-mono text-xs pt-1 ${isDark ? 'text-gray-600' : 'text-gray-400'}`}>
+                {lineNumber % 5 === 0 || highlighted ? lineNumber : ''}
+              </span>
+              <span className="whitespace-pre-wrap">{line || ' '}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
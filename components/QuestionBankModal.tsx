@@ -0,0 +1,293 @@
+import React, { useState, useEffect } from 'react';
+import { SavedQuestion, Lesson } from '../types';
+import { Button } from './Button';
+import { MarkingSchemeEditor } from './MarkingSchemeEditor';
+import { questionBank, QuestionDraft } from '../services/questionBank';
+import { formatLineReference, getPassageLines } from '../services/passageService';
+import { cleanMarkingScheme } from '../services/markingScheme';
+import { TIME_LIMIT_OPTIONS, formatTimeLimit } from '../services/roundTimer';
+
+interface QuestionBankModalProps {
+  onClose: () => void;
+  onPostQuestion: (question: SavedQuestion) => void;
+  onStartLesson: (lesson: Lesson) => void;
+  currentDraft?: QuestionDraft; // What is in the Controls panel, offered as "Save current prompt"
+}
+
+const emptyDraft: QuestionDraft = { prompt: '', maxScore: 2, markingNotes: '' };
+
+export const QuestionBankModal: React.FC<QuestionBankModalProps> = ({ onClose, onPostQuestion, onStartLesson, currentDraft }) => {
+  const [tab, setTab] = useState<'questions' | 'lessons'>('questions');
+  const [questions, setQuestions] = useState<SavedQuestion[]>([]);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' for an unsaved question
+  const [draft, setDraft] = useState<QuestionDraft>(emptyDraft);
+  const [selectedLessonId, setSelectedLessonId] = useState<string | null>(null);
+  const [newLessonTitle, setNewLessonTitle] = useState('');
+
+  useEffect(() => {
+    return questionBank.subscribe(() => {
+      setQuestions(questionBank.getQuestions());
+      setLessons(questionBank.getLessons());
+    });
+  }, []);
+
+  const startEditing = (question?: SavedQuestion, from?: QuestionDraft) => {
+    setEditingId(question ? question.id : 'new');
+    setDraft(question
+      ? { prompt: question.prompt, maxScore: question.maxScore, passage: question.passage, markingNotes: question.markingNotes, markingScheme: question.markingScheme, modelAnswer: question.modelAnswer, allowResubmission: question.allowResubmission, timeLimitSeconds: question.timeLimitSeconds }
+      : from || emptyDraft);
+  };
+
+  const handleSaveQuestion = () => {
+    if (!draft.prompt.trim()) return;
+    const passage = draft.passage?.text.trim() ? draft.passage : undefined;
+    const markingScheme = cleanMarkingScheme(draft.markingScheme || []);
+    questionBank.saveQuestion({ ...draft, prompt: draft.prompt.trim(), maxScore: Math.max(1, draft.maxScore), passage, markingScheme }, editingId === 'new' ? undefined : editingId || undefined);
+    setEditingId(null);
+  };
+
+  const handleDeleteQuestion = (id: string) => {
+    if (confirm('Delete this question? It will also be removed from any lessons.')) questionBank.deleteQuestion(id);
+  };
+
+  const updatePassage = (changes: Partial<NonNullable<QuestionDraft['passage']>>) => {
+    const passage = { title: '', text: '', ...draft.passage, ...changes };
+    setDraft({ ...draft, passage });
+  };
+
+  const updateTargetLine = (field: 'start' | 'end', value: number) => {
+    if (!draft.passage) return;
+    if (!value) { updatePassage({ targetLines: undefined }); return; }
+    const total = getPassageLines(draft.passage).length;
+    const current = draft.passage.targetLines || { start: value, end: value };
+    const next = { ...current, [field]: Math.min(Math.max(1, value), total) };
+    updatePassage({ targetLines: { start: Math.min(next.start, next.end), end: Math.max(next.start, next.end) } });
+  };
+
+  const handleCreateLesson = () => {
+    if (!newLessonTitle.trim()) return;
+    const lesson = questionBank.createLesson(newLessonTitle.trim());
+    setNewLessonTitle('');
+    setSelectedLessonId(lesson.id);
+  };
+
+  const selectedLesson = lessons.find(l => l.id === selectedLessonId);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div className="flex gap-4">
+            <button onClick={() => setTab('questions')} className={`font-bold ${tab === 'questions' ? 'text-indigo-600' : 'text-gray-400 hover:text-gray-600'}`}>
+              Questions ({questions.length})
+            </button>
+            <button onClick={() => setTab('lessons')} className={`font-bold ${tab === 'lessons' ? 'text-indigo-600' : 'text-gray-400 hover:text-gray-600'}`}>
+              Lessons ({lessons.length})
+            </button>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {tab === 'questions' && editingId && (
+            <div className="space-y-3">
+              <label className="text-sm font-medium text-gray-700 block">Question</label>
+              <textarea
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                className="w-full border rounded-lg p-2 text-sm min-h-[60px]"
+                placeholder="e.g. Explain in your own words what the writer means by..."
+              />
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-gray-600">Max score</span>
+                <input
+                  type="number" min="1" max="20"
+                  value={draft.maxScore}
+                  onChange={(e) => setDraft({ ...draft, maxScore: parseInt(e.target.value) || 2 })}
+                  className="w-16 border rounded p-1 text-center"
+                />
+                <label className="flex items-center gap-1.5 ml-4 text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.allowResubmission !== false}
+                    onChange={(e) => setDraft({ ...draft, allowResubmission: e.target.checked })}
+                    className="rounded text-indigo-600"
+                  />
+                  Students may resubmit
+                </label>
+                <label className="flex items-center gap-1.5 ml-4 text-gray-600">
+                  Time limit
+                  <select
+                    value={draft.timeLimitSeconds || 0}
+                    onChange={(e) => setDraft({ ...draft, timeLimitSeconds: parseInt(e.target.value) || undefined })}
+                    className="border rounded p-1"
+                  >
+                    <option value={0}>None</option>
+                    {TIME_LIMIT_OPTIONS.map(seconds => <option key={seconds} value={seconds}>{formatTimeLimit(seconds)}</option>)}
+                  </select>
+                </label>
+              </div>
+              <label className="text-sm font-medium text-gray-700 block">Passage</label>
+              <input
+                type="text"
+                value={draft.passage?.title || ''}
+                onChange={(e) => updatePassage({ title: e.target.value })}
+                className="w-full border rounded p-2 text-sm"
+                placeholder="Passage title"
+              />
+              <textarea
+                value={draft.passage?.text || ''}
+                onChange={(e) => updatePassage({ text: e.target.value, targetLines: undefined })}
+                className="w-full border rounded-lg p-2 text-sm min-h-[100px] font-serif"
+                placeholder="Passage text, one printed line per line"
+              />
+              {draft.passage?.text.trim() && (
+                <div className="flex items-center gap-2 text-xs text-gray-600">
+                  <span>Lines</span>
+                  <input type="number" min="1" value={draft.passage.targetLines?.start ?? ''} onChange={(e) => updateTargetLine('start', parseInt(e.target.value))} className="w-14 border rounded p-1 text-center" />
+                  <span>to</span>
+                  <input type="number" min="1" value={draft.passage.targetLines?.end ?? ''} onChange={(e) => updateTargetLine('end', parseInt(e.target.value))} className="w-14 border rounded p-1 text-center" />
+                  <span className="text-gray-400">of {getPassageLines(draft.passage).length}</span>
+                </div>
+              )}
+              <label className="text-sm font-medium text-gray-700 block">Marking scheme</label>
+              <MarkingSchemeEditor
+                points={draft.markingScheme || []}
+                onChange={(markingScheme) => setDraft({ ...draft, markingScheme })}
+              />
+              <label className="text-sm font-medium text-gray-700 block">Marking notes</label>
+              <textarea
+                value={draft.markingNotes}
+                onChange={(e) => setDraft({ ...draft, markingNotes: e.target.value })}
+                className="w-full border rounded-lg p-2 text-sm min-h-[60px]"
+                placeholder="Only visible to you, e.g. acceptable glosses for key words"
+              />
+              <label className="text-sm font-medium text-gray-700 block">Model answer</label>
+              <textarea
+                value={draft.modelAnswer || ''}
+                onChange={(e) => setDraft({ ...draft, modelAnswer: e.target.value || undefined })}
+                className="w-full border rounded-lg p-2 text-sm min-h-[60px]"
+                placeholder="Optional. Revealed on the projector as the last step of discussing an answer"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="secondary" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+                <Button size="sm" onClick={handleSaveQuestion} disabled={!draft.prompt.trim()}>Save Question</Button>
+              </div>
+            </div>
+          )}
+
+          {tab === 'questions' && !editingId && (
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => startEditing()}>+ New Question</Button>
+                {currentDraft?.prompt.trim() && (
+                  <Button variant="secondary" size="sm" onClick={() => startEditing(undefined, currentDraft)}>Save Current Prompt</Button>
+                )}
+              </div>
+              {questions.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-8">No saved questions yet.</p>
+              ) : questions.map(q => (
+                <div key={q.id} className="border rounded-lg p-3 flex justify-between items-start gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900">{q.prompt}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {q.maxScore} marks
+                      {q.passage && ` · ${q.passage.title || 'Untitled passage'}`}
+                      {q.passage?.targetLines && `, ${formatLineReference(q.passage)}`}
+                      {q.markingScheme && ` · ${q.markingScheme.length} scheme point${q.markingScheme.length === 1 ? '' : 's'}`}
+                      {q.markingNotes && ' · has marking notes'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="sm" className="text-xs" onClick={() => { onPostQuestion(q); onClose(); }}>Post</Button>
+                    <Button variant="ghost" size="sm" className="text-xs" onClick={() => startEditing(q)}>Edit</Button>
+                    <Button variant="ghost" size="sm" className="text-xs text-red-500" onClick={() => handleDeleteQuestion(q.id)}>Delete</Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {tab === 'lessons' && (
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <div className="flex gap-1">
+                  <input
+                    type="text"
+                    value={newLessonTitle}
+                    onChange={(e) => setNewLessonTitle(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreateLesson()}
+                    className="flex-1 min-w-0 border rounded p-1 text-sm"
+                    placeholder="New lesson title"
+                  />
+                  <Button size="sm" onClick={handleCreateLesson} disabled={!newLessonTitle.trim()}>+</Button>
+                </div>
+                {lessons.map(l => (
+                  <button
+                    key={l.id}
+                    onClick={() => setSelectedLessonId(l.id)}
+                    className={`w-full text-left p-2 rounded text-sm ${l.id === selectedLessonId ? 'bg-indigo-50 text-indigo-700 font-medium' : 'hover:bg-gray-50 text-gray-700'}`}
+                  >
+                    {l.title} <span className="text-xs text-gray-400">({l.questionIds.length})</span>
+                  </button>
+                ))}
+              </div>
+
+              <div className="md:col-span-2">
+                {!selectedLesson ? (
+                  <p className="text-sm text-gray-400 text-center py-8">Select or create a lesson.</p>
+                ) : (
+                  <div className="space-y-3">
+                    <input
+                      type="text"
+                      value={selectedLesson.title}
+                      onChange={(e) => questionBank.updateLesson(selectedLesson.id, { title: e.target.value })}
+                      className="w-full border rounded p-2 text-sm font-medium"
+                    />
+                    <ol className="space-y-1">
+                      {selectedLesson.questionIds.map((qid, i) => {
+                        const q = questionBank.getQuestion(qid);
+                        return (
+                          <li key={qid + i} className="flex items-center gap-2 border rounded p-2 text-sm">
+                            <span className="text-gray-400 w-5">{i + 1}.</span>
+                            <span className="flex-1 truncate">{q?.prompt || '(missing question)'}</span>
+                            <button onClick={() => questionBank.moveLessonQuestion(selectedLesson.id, i, -1)} disabled={i === 0} className="text-gray-400 hover:text-gray-700 disabled:opacity-30">↑</button>
+                            <button onClick={() => questionBank.moveLessonQuestion(selectedLesson.id, i, 1)} disabled={i === selectedLesson.questionIds.length - 1} className="text-gray-400 hover:text-gray-700 disabled:opacity-30">↓</button>
+                            <button
+                              onClick={() => questionBank.updateLesson(selectedLesson.id, { questionIds: selectedLesson.questionIds.filter((_, j) => j !== i) })}
+                              className="text-gray-400 hover:text-red-600"
+                            >✕</button>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && questionBank.updateLesson(selectedLesson.id, { questionIds: [...selectedLesson.questionIds, e.target.value] })}
+                      className="w-full border rounded p-2 text-sm text-gray-600"
+                    >
+                      <option value="">+ Add question from bank...</option>
+                      {questions.map(q => <option key={q.id} value={q.id}>{q.prompt.slice(0, 80)}</option>)}
+                    </select>
+                    <div className="flex justify-between pt-2">
+                      <Button
+                        variant="ghost" size="sm" className="text-xs text-red-500"
+                        onClick={() => { if (confirm('Delete this lesson? Saved questions are kept.')) { questionBank.deleteLesson(selectedLesson.id); setSelectedLessonId(null); } }}
+                      >
+                        Delete Lesson
+                      </Button>
+                      <Button size="sm" disabled={selectedLesson.questionIds.length === 0} onClick={() => { onStartLesson(selectedLesson); onClose(); }}>
+                        Start Lesson
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
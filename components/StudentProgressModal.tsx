@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArchivedRound, ClassList } from '../types';
+import { Button } from './Button';
+import { backend } from '../services/mockBackend';
+import { classLists, parseClassListCsv } from '../services/classLists';
+import { buildClassProgress, findUnlinkedLogins, linkedStudentIds, StudentProgress, ProgressPoint, UnlinkedLogin } from '../services/studentProgress';
+
+interface StudentProgressModalProps {
+  initialClassName?: string;
+  onClose: () => void;
+}
+
+const formatPercent = (value: number | null) => value === null ? '–' : `${Math.round(value)}%`;
+
+const formatTrend = (trend: number | null) =>
+  trend === null ? '–' : `${trend > 0 ? '▲ +' : trend < 0 ? '▼ ' : ''}${trend.toFixed(1)} pts/round`;
+
+/**
+ * Each pupil's marks, submissions and lifting flags across a class's archived rounds.
+ * Pupils come from the teacher's class list; logins that don't match anyone on it
+ * are listed separately so the teacher can link them by hand.
+ */
+export const StudentProgressModal: React.FC<StudentProgressModalProps> = ({ initialClassName, onClose }) => {
+  const [rounds, setRounds] = useState<ArchivedRound[]>(backend.getArchivedRounds());
+  const [lists, setLists] = useState<Record<string, ClassList>>({});
+  const [className, setClassName] = useState(initialClassName || '');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [importMessage, setImportMessage] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => backend.subscribeArchive(setRounds), []);
+  useEffect(() => classLists.subscribe(setLists), []);
+
+  const classNames = Array.from(new Set([
+    ...Object.keys(lists),
+    ...rounds.map(r => r.className).filter((n): n is string => !!n),
+    ...(initialClassName ? [initialClassName] : []),
+  ])).sort((a, b) => a.localeCompare(b));
+
+  useEffect(() => {
+    if (!className && classNames.length > 0) setClassName(classNames[0]);
+  }, [className, classNames.length]);
+
+  const list = lists[className];
+  const progress = list ? buildClassProgress(rounds, list) : [];
+  const unlinked = className ? findUnlinkedLogins(rounds, className) : [];
+  const selected = progress.find(p => p.member.id === selectedId);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!className || !newName.trim()) return;
+    classLists.addMember(className, newName);
+    backend.linkClassListByName(className);
+    setNewName('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be picked again after editing it
+    if (!file || !className) return;
+    const rows = parseClassListCsv(await file.text());
+    if (rows.length === 0) {
+      setImportMessage(`No names found in ${file.name}.`);
+      return;
+    }
+    const { added, updated } = classLists.importMembers(className, rows);
+    backend.linkClassListByName(className);
+    setImportMessage(`Imported ${file.name}: ${added} added, ${updated} updated.`);
+  };
+
+  const handleLink = (login: UnlinkedLogin, value: string) => {
+    if (!value) return;
+    const memberId = value === 'new' ? classLists.addMember(className, login.name).id : value;
+    backend.linkStudentsToMember(login.studentIds, memberId);
+  };
+
+  const handleRemove = (entry: StudentProgress) => {
+    if (!confirm(`Remove ${entry.member.name} from the class list? Their answers stay in the history, unlinked.`)) return;
+    const current = (Object.values(backend.getState().sessions || {})).filter(s => s.memberId === entry.member.id).map(s => s.studentId);
+    backend.linkStudentsToMember([...linkedStudentIds(rounds, entry.member.id), ...current], undefined);
+    classLists.removeMember(className, entry.member.id);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-5xl h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div className="flex items-center gap-4">
+            <h3 className="font-bold text-gray-900">Class List &amp; Progress</h3>
+            <select
+              value={className}
+              onChange={(e) => { setClassName(e.target.value); setSelectedId(null); }}
+              className="border rounded p-1 text-sm"
+            >
+              {classNames.length === 0 && <option value="">No classes yet</option>}
+              {classNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+        </div>
+
+        {!className ? (
+          <p className="text-sm text-gray-400 text-center mt-20 px-6">
+            Name the class under Session Management, then add its pupils here to follow their progress.
+          </p>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            <div className="w-80 border-r overflow-y-auto p-3 space-y-4">
+              <form onSubmit={handleAdd} className="flex gap-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  className="flex-1 border rounded p-1.5 text-sm"
+                  placeholder="Add a pupil"
+                />
+                <Button type="submit" size="sm" disabled={!newName.trim()}>Add</Button>
+              </form>
+              <div>
+                <input ref={fileInput} type="file" accept=".csv,.txt,text/csv" onChange={handleImport} className="hidden" />
+                <button onClick={() => fileInput.current?.click()} className="text-xs text-indigo-600 hover:underline">
+                  Import class list (CSV)
+                </button>
+                <p className="text-xs text-gray-400">Names, with candidate numbers in a second column if you have them.</p>
+                {importMessage && <p className="text-xs text-green-700 mt-1">{importMessage}</p>}
+              </div>
+
+              <div>
+                <h4 className="text-xs font-bold text-gray-500 uppercase mb-1">Class List ({progress.length})</h4>
+                {progress.length === 0 && <p className="text-sm text-gray-400 p-2">No pupils on the list yet.</p>}
+                <ul className="space-y-1">
+                  {progress.map(entry => (
+                    <li key={entry.member.id}>
+                      <button
+                        onClick={() => setSelectedId(entry.member.id)}
+                        className={`w-full flex justify-between items-center p-2 rounded text-sm ${entry.member.id === selectedId ? 'bg-indigo-50 text-indigo-900' : 'hover:bg-gray-50 text-gray-700'}`}
+                      >
+                        <span className="truncate">
+                          {entry.member.name}
+                          {entry.member.candidateNumber && <span className="text-xs text-gray-400 ml-1">#{entry.member.candidateNumber}</span>}
+                        </span>
+                        <span className="text-xs text-gray-400 shrink-0 ml-2">
+                          {entry.points.length === 0 ? 'No rounds' : formatPercent(entry.averagePercent)}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {unlinked.length > 0 && (
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <h4 className="text-xs font-bold text-gray-500 uppercase">Unlinked Names ({unlinked.length})</h4>
+                    {list && (
+                      <button onClick={() => backend.linkClassListByName(className)} className="text-xs text-indigo-600 hover:underline">
+                        Link matching
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-400 mb-2">Names typed in past rounds that aren't linked to a pupil.</p>
+                  <ul className="space-y-2">
+                    {unlinked.map(login => (
+                      <li key={login.name} className="text-sm">
+                        <div className="flex justify-between text-gray-700">
+                          <span className="truncate">{login.name}</span>
+                          <span className="text-xs text-gray-400 shrink-0 ml-2">{login.rounds} round{login.rounds === 1 ? '' : 's'}</span>
+                        </div>
+                        <select value="" onChange={(e) => handleLink(login, e.target.value)} className="w-full border rounded p-1 text-xs mt-1">
+                          <option value="">Link to…</option>
+                          <option value="new">Add "{login.name}" to the list</option>
+                          {progress.map(p => <option key={p.member.id} value={p.member.id}>{p.member.name}</option>)}
+                        </select>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4">
+              {!selected ? (
+                <p className="text-sm text-gray-400 text-center mt-20">Pick a pupil to see their progress.</p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="text-xs text-gray-400">
+                        {className}{selected.member.candidateNumber && ` · candidate ${selected.member.candidateNumber}`}
+                      </p>
+                      <h4 className="text-lg font-semibold text-gray-900">{selected.member.name}</h4>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(selected)} className="text-xs text-red-600 hover:bg-red-50">
+                      Remove from List
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    <ProgressStat label="Average Mark" value={formatPercent(selected.averagePercent)} />
+                    <ProgressStat
+                      label="Submitted"
+                      value={selected.submissionRate === null ? '–' : `${selected.submitted} of ${selected.points.length}`}
+                    />
+                    <ProgressStat label="Lifting Flags" value={String(selected.flaggedCount)} warn={selected.flaggedCount > 0} />
+                    <ProgressStat label="Trend" value={formatTrend(selected.trend)} />
+                  </div>
+
+                  {selected.points.length === 0 ? (
+                    <p className="text-sm text-gray-400">No archived rounds for this pupil yet. Link their names from past rounds to fill this in.</p>
+                  ) : (
+                    <>
+                      <TrendChart points={selected.points} />
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                            <th className="py-2 pr-2">Date</th>
+                            <th className="py-2 pr-2">Question</th>
+                            <th className="py-2 pr-2 text-right">Mark</th>
+                            <th className="py-2 text-right">Lifted</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {[...selected.points].reverse().map(point => (
+                            <tr key={point.roundId} className="border-b border-gray-100">
+                              <td className="py-2 pr-2 text-gray-500 whitespace-nowrap">{new Date(point.takenAt).toLocaleDateString()}</td>
+                              <td className="py-2 pr-2 text-gray-800 truncate max-w-xs" title={point.prompt}>{point.prompt || '(No prompt)'}</td>
+                              <td className="py-2 pr-2 text-right whitespace-nowrap">
+                                {!point.submitted ? <span className="text-gray-400">No answer</span> : point.percent === null ? <span className="text-gray-400">Unmarked</span> : `${point.percent}%`}
+                              </td>
+                              <td className={`py-2 text-right ${point.flagged ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                                {point.liftedPercent === null ? '–' : `${point.liftedPercent}%`}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ProgressStat: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn }) => (
+  <div className={`rounded-lg p-3 border ${warn ? 'bg-red-50 border-red-100' : 'bg-gray-50 border-gray-100'}`}>
+    <div className="text-xs text-gray-500 uppercase font-bold">{label}</div>
+    <div className={`text-lg font-bold ${warn ? 'text-red-700' : 'text-gray-900'}`}>{value}</div>
+  </div>
+);
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 24;
+
+// Marks as a line over the pupil's rounds; red dots are lifting flags, grey crosses are rounds with no answer
+const TrendChart: React.FC<{ points: ProgressPoint[] }> = ({ points }) => {
+  const x = (i: number) => points.length === 1
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + (i / (points.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (percent: number) => CHART_HEIGHT - CHART_PADDING - (percent / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+  const marked = points.map((p, i) => ({ p, i })).filter(({ p }) => p.percent !== null);
+
+  return (
+    <div className="border rounded-lg p-2">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Marks over time">
+        {[0, 50, 100].map(level => (
+          <g key={level}>
+            <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(level)} y2={y(level)} stroke="#e5e7eb" strokeDasharray="4 4" />
+            <text x={2} y={y(level) + 4} fontSize="10" fill="#9ca3af">{level}%</text>
+          </g>
+        ))}
+        <polyline
+          points={marked.map(({ p, i }) => `${x(i)},${y(p.percent!)}`).join(' ')}
+          fill="none"
+          stroke="#4f46e5"
+          strokeWidth="2"
+        />
+        {points.map((p, i) => p.percent !== null ? (
+          <circle key={p.roundId} cx={x(i)} cy={y(p.percent)} r="5" fill={p.flagged ? '#dc2626' : '#4f46e5'}>
+            <title>{`${new Date(p.takenAt).toLocaleDateString()}: ${p.percent}%${p.flagged ? `, ${p.liftedPercent}% lifted` : ''}`}</title>
+          </circle>
+        ) : (
+          <text key={p.roundId} x={x(i)} y={y(0) + 4} fontSize="12" fill="#9ca3af" textAnchor="middle">
+            {p.submitted ? '?' : '×'}
+            <title>{`${new Date(p.takenAt).toLocaleDateString()}: ${p.submitted ? 'unmarked' : 'no answer'}`}</title>
+          </text>
+        ))}
+      </svg>
+      <div className="flex gap-4 justify-center text-xs text-gray-500 mt-1">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-indigo-600" /> Mark</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-600" /> Lifting flag</span>
+        <span>× No answer · ? Unmarked</span>
+      </div>
+    </div>
+  );
+};
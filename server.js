@@ -3,6 +3,8 @@ import { createServer } from 'http';
 import { Server } from 'socket.io';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { getRoomState, applyHostState, acceptStudent, findSessionByToken, addAnswer, addPeerVote, addPeerReview, claimName, scopeStateForStudent, pruneRooms, roomExists, createRoom, checkHostSecret } from './server/roomStore.js';
+import { authRouter, isTeacherAuthorised } from './server/auth.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const app = express();
@@ -13,29 +15,191 @@ const io = new Server(httpServer, {
 
 const PORT = process.env.PORT || 3000;
 
+// Optional teacher login (see server/auth.js)
+app.use('/api', authRouter);
+
 // Serve static files from the build directory
 app.use(express.static(path.join(__dirname, 'dist')));
 
 // WebSocket Logic for "Server Mode"
+// The server holds each room's state, so students can join and submit while the teacher's laptop sleeps.
+// Students only ever receive their own scoped state; the host gets the full room state.
+const hostRoom = (roomCode) => `${roomCode}:host`;
+
+// Sends every student in the room their own view of the state
+const syncStudents = (roomCode) => {
+  const state = getRoomState(roomCode);
+  const members = io.sockets.adapter.rooms.get(roomCode);
+  if (!state || !members) return;
+  members.forEach((id) => {
+    const member = io.sockets.sockets.get(id);
+    if (member?.data.role === 'student') {
+      member.emit('message', { type: 'SYNC_STATE', scope: 'student', payload: scopeStateForStudent(state, member.data.studentId) });
+    }
+  });
+};
+
+const syncHost = (roomCode) => {
+  const state = getRoomState(roomCode);
+  if (state) io.to(hostRoom(roomCode)).emit('room_state', state);
+};
+
+const sendPresence = (roomCode, studentId, changes) => {
+  io.to(hostRoom(roomCode)).emit('presence', { studentId, lastSeen: Date.now(), ...changes });
+};
+
+// The only messages a student socket may send. Anything else (SYNC_STATE, RESET_FORM, ...) is teacher-only.
+const STUDENT_MESSAGE_TYPES = new Set(['JOIN_REQUEST', 'PRESENCE', 'SUBMIT_ANSWER', 'PEER_VOTE', 'PEER_REVIEW', 'CLAIM_NAME']);
+// The only message the host relays through the server; state itself goes through host_state and is scoped per student
+const HOST_RELAY_TYPES = new Set(['RESET_FORM']);
+
+// Anyone can open a socket, so every event is checked before use: one that throws would stop the server for every room
+const isRoomCode = (value) => typeof value === 'string' && value.length > 0;
+const isObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
 io.on('connection', (socket) => {
+
+  // Teacher creates, reconnects to or resumes a room. Existing rooms need the host secret issued at creation.
+  socket.on('host_join', (payload = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    if (!isObject(payload)) return reply({ error: 'invalid' });
+    const { roomCode, hostSecret, authToken } = payload;
+    const state = isObject(payload.state) ? payload.state : undefined;
+    if (!isRoomCode(roomCode)) return reply({ error: 'invalid' });
+    if (!isTeacherAuthorised(authToken)) return reply({ error: 'login_required' });
+
+    let secret = hostSecret;
+    if (roomExists(roomCode)) {
+      if (!checkHostSecret(roomCode, hostSecret)) return reply({ error: 'forbidden' });
+    } else {
+      if (!state) return reply({ error: 'not_found' });
+      secret = createRoom(roomCode, { ...state, roomCode });
+    }
+
+    socket.data.roomCode = roomCode;
+    socket.data.role = 'host';
+    socket.join(roomCode);
+    socket.join(hostRoom(roomCode));
+    const roomState = state ? applyHostState(roomCode, { ...state, roomCode }) : getRoomState(roomCode);
+    reply({ state: roomState, hostSecret: secret });
+    syncStudents(roomCode);
+  });
+
+  // Teacher changed something: store it, then fan out scoped copies
+  socket.on('host_state', (payload = {}) => {
+    if (!isObject(payload)) return;
+    const { roomCode, state } = payload;
+    if (socket.data.role !== 'host' || !isRoomCode(roomCode) || socket.data.roomCode !== roomCode || !isObject(state)) return;
+    const merged = applyHostState(roomCode, state);
+    syncStudents(roomCode);
+    // Tell the host if the merge brought in answers, revisions, votes, reviews, joins or name picks it had not seen yet
+    const count = (obj) => Object.keys(obj || {}).length;
+    const unseenAnswer = Object.values(merged.students || {}).some(s => {
+      const host = state.students?.[s.id];
+      return host?.text !== s.text || count(host?.peerVotes) !== count(s.peerVotes) || count(host?.peerReviews) !== count(s.peerReviews);
+    });
+    const unseenJoin = count(merged.sessions) !== count(state.sessions)
+      || Object.values(merged.sessions || {}).some(s => state.sessions?.[s.studentId]?.approval !== s.approval);
+    if (unseenAnswer || unseenJoin) syncHost(roomCode);
+  });
   
-  // Join a specific class room
+  // Student joins a class room. Late joiners get the current question straight away.
   socket.on('join_room', (roomCode) => {
+    if (socket.data.role === 'host' || !isRoomCode(roomCode)) return;
+    socket.data.roomCode = roomCode;
+    socket.data.role = 'student';
     socket.join(roomCode);
-    // console.log(`Socket ${socket.id} joined room ${roomCode}`);
+    const state = getRoomState(roomCode);
+    if (state) socket.emit('message', { type: 'SYNC_STATE', scope: 'student', payload: scopeStateForStudent(state) });
   });
 
-  // Relay messages (Teacher -> Students or Students -> Teacher)
-  socket.on('message', ({ roomCode, message }) => {
-    // Broadcast to everyone else in the room
-    socket.to(roomCode).emit('message', message);
+  // Host messages (only RESET_FORM) are relayed to students; student messages are handled here
+  socket.on('message', (payload = {}) => {
+    if (!isObject(payload)) return;
+    const { roomCode, message } = payload;
+    if (!isRoomCode(roomCode) || socket.data.roomCode !== roomCode || !isObject(message)) return;
+
+    if (socket.data.role === 'host') {
+      if (HOST_RELAY_TYPES.has(message.type)) socket.to(roomCode).emit('message', { type: message.type });
+      return;
+    }
+
+    if (!STUDENT_MESSAGE_TYPES.has(message.type)) {
+      socket.emit('rejected', { type: message.type, reason: 'Only the teacher can send this.' });
+      return;
+    }
+    if (!getRoomState(roomCode)) return;
+    const body = isObject(message.payload) ? message.payload : {};
+
+    if (message.type === 'JOIN_REQUEST') {
+      const session = acceptStudent(roomCode, body.name, body.token);
+      if (!session) return;
+      socket.data.studentId = session.studentId;
+      socket.emit('message', { type: 'JOIN_ACCEPTED', payload: { studentId: session.studentId, token: session.token, name: session.name } });
+      socket.emit('message', { type: 'SYNC_STATE', scope: 'student', payload: scopeStateForStudent(getRoomState(roomCode), session.studentId) });
+      syncHost(roomCode);
+      sendPresence(roomCode, session.studentId, { connected: true, typing: false });
+    }
+
+    if (message.type === 'PRESENCE') {
+      const session = findSessionByToken(roomCode, body.token);
+      if (!session) return;
+      socket.data.studentId = session.studentId;
+      sendPresence(roomCode, session.studentId, { connected: true, typing: !!body.typing });
+    }
+
+    if (message.type === 'SUBMIT_ANSWER') {
+      // The token, not a name the device claims, decides whose answer this is
+      const session = findSessionByToken(roomCode, body.token);
+      if (!session) return;
+      socket.data.studentId = session.studentId;
+      const rejection = addAnswer(roomCode, session, body.text);
+      // An unchanged resubmission is already stored, so the student's synced state shows it
+      if (rejection && rejection !== 'unchanged') socket.emit('message', { type: 'ANSWER_REJECTED', payload: { reason: rejection } });
+      socket.emit('message', { type: 'SYNC_STATE', scope: 'student', payload: scopeStateForStudent(getRoomState(roomCode), session.studentId) });
+      syncHost(roomCode);
+      sendPresence(roomCode, session.studentId, { connected: true, typing: false });
+    }
+
+    if (message.type === 'PEER_VOTE') {
+      const session = findSessionByToken(roomCode, body.token);
+      if (!session || session.approval) return;
+      socket.data.studentId = session.studentId;
+      addPeerVote(roomCode, session, body);
+      socket.emit('message', { type: 'SYNC_STATE', scope: 'student', payload: scopeStateForStudent(getRoomState(roomCode), session.studentId) });
+      syncHost(roomCode);
+    }
+
+    if (message.type === 'PEER_REVIEW') {
+      const session = findSessionByToken(roomCode, body.token);
+      if (!session || session.approval) return;
+      socket.data.studentId = session.studentId;
+      addPeerReview(roomCode, session, body);
+      socket.emit('message', { type: 'SYNC_STATE', scope: 'student', payload: scopeStateForStudent(getRoomState(roomCode), session.studentId) });
+      syncHost(roomCode);
+    }
+
+    if (message.type === 'CLAIM_NAME') {
+      const session = findSessionByToken(roomCode, body.token);
+      if (!session) return;
+      socket.data.studentId = session.studentId;
+      claimName(roomCode, session, body.memberId);
+      // Everyone still waiting sees one fewer name to pick from
+      syncStudents(roomCode);
+      syncHost(roomCode);
+    }
   });
 
   socket.on('disconnect', () => {
-    // console.log('User disconnected');
+    const { role, roomCode, studentId } = socket.data;
+    if (role === 'student' && roomCode && studentId) {
+      sendPresence(roomCode, studentId, { connected: false, typing: false });
+    }
   });
 });
 
+setInterval(pruneRooms, 60 * 60 * 1000);
+
 // Handle React Routing (SPA) - Return index.html for all 404s
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'dist', 'index.html'));
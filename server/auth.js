@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import express from 'express';
+
+// Optional teacher login for shared deployments. Leave TEACHER_PASSWORD unset to allow anyone to host.
+const USERNAME = process.env.TEACHER_USERNAME || 'teacher';
+const PASSWORD = process.env.TEACHER_PASSWORD || '';
+const TOKEN_TTL_MS = (Number(process.env.TEACHER_SESSION_HOURS) || 12) * 60 * 60 * 1000;
+
+/** @type {Map<string, number>} token -> expiry */
+const tokens = new Map();
+
+export const isLoginRequired = () => PASSWORD !== '';
+
+const safeEqual = (a, b) => {
+  const hashA = crypto.createHash('sha256').update(String(a)).digest();
+  const hashB = crypto.createHash('sha256').update(String(b)).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+};
+
+export const isTeacherAuthorised = (token) => {
+  if (!isLoginRequired()) return true;
+  const expiry = tokens.get(token);
+  if (!expiry) return false;
+  if (expiry < Date.now()) {
+    tokens.delete(token);
+    return false;
+  }
+  return true;
+};
+
+export const authRouter = express.Router();
+
+authRouter.get('/auth-config', (req, res) => {
+  res.json({ loginRequired: isLoginRequired() });
+});
+
+authRouter.post('/login', express.json(), (req, res) => {
+  const { username, password } = req.body || {};
+  if (!isLoginRequired()) return res.json({ token: '' });
+  // Check both so a wrong username takes as long as a wrong password
+  const validUser = safeEqual(username, USERNAME);
+  const validPassword = safeEqual(password, PASSWORD);
+  if (!validUser || !validPassword) return res.status(401).json({ error: 'Incorrect username or password.' });
+  const token = crypto.randomBytes(24).toString('hex');
+  tokens.set(token, Date.now() + TOKEN_TTL_MS);
+  res.json({ token });
+});
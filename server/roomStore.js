@@ -0,0 +1,168 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { answerRejection, buildResponse, newSession, applyClaimName, applyPeerVote, applyPeerReview, scopeStateForStudent } from '../shared/roomRules.js';
+
+// Rooms nobody has touched for this long are dropped
+const ROOM_TTL_MS = (Number(process.env.ROOM_TTL_HOURS) || 24) * 60 * 60 * 1000;
+// Optional JSON file so rooms survive a server restart
+const STORE_FILE = process.env.ROOM_STORE_FILE || '';
+const SAVE_DELAY_MS = 1000;
+
+/** @type {Map<string, { state: any, hostSecret: string, updatedAt: number }>} */
+const rooms = new Map();
+let saveTimer = null;
+
+const load = () => {
+  if (!STORE_FILE || !fs.existsSync(STORE_FILE)) return;
+  try {
+    const saved = JSON.parse(fs.readFileSync(STORE_FILE, 'utf8'));
+    Object.entries(saved).forEach(([code, room]) => rooms.set(code, room));
+    console.log(`Loaded ${rooms.size} room(s) from ${STORE_FILE}`);
+  } catch (err) {
+    console.error(`Could not read room store ${STORE_FILE}:`, err.message);
+  }
+};
+
+// Writes are batched; a burst of 30 submissions is one write
+const scheduleSave = () => {
+  if (!STORE_FILE || saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    const data = Object.fromEntries(rooms);
+    fs.writeFile(STORE_FILE, JSON.stringify(data), (err) => {
+      if (err) console.error(`Could not write room store ${STORE_FILE}:`, err.message);
+    });
+  }, SAVE_DELAY_MS);
+};
+
+const touch = (code, state) => {
+  const room = rooms.get(code);
+  rooms.set(code, { ...room, state, updatedAt: Date.now() });
+  scheduleSave();
+  return state;
+};
+
+const randomId = (bytes) => crypto.randomBytes(bytes).toString('hex');
+
+export const roomExists = (code) => rooms.has(code);
+
+// A new room's secret is handed only to the teacher who created it
+export const createRoom = (code, state) => {
+  const hostSecret = randomId(16);
+  rooms.set(code, { state, hostSecret, updatedAt: Date.now() });
+  scheduleSave();
+  return hostSecret;
+};
+
+export const checkHostSecret = (code, secret) => {
+  const expected = rooms.get(code)?.hostSecret;
+  if (!expected || typeof secret !== 'string' || secret.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(secret), Buffer.from(expected));
+};
+
+export const pruneRooms = () => {
+  const cutoff = Date.now() - ROOM_TTL_MS;
+  rooms.forEach((room, code) => { if (room.updatedAt < cutoff) rooms.delete(code); });
+  scheduleSave();
+};
+
+export const getRoomState = (code) => rooms.get(code)?.state;
+
+// The teacher's copy wins for marks, but a revision it hasn't seen yet keeps its newer text,
+// and peer votes and reviews the server took while the teacher's push was in flight are kept
+const mergeResponses = (serverStudents = {}, hostStudents = {}) => {
+  const merged = { ...serverStudents, ...hostStudents };
+  Object.values(serverStudents).forEach(s => {
+    const host = hostStudents[s.id];
+    if (!host) return;
+    if (s.submittedAt > host.submittedAt) {
+      merged[s.id] = { ...host, text: s.text, submittedAt: s.submittedAt, revisions: s.revisions, lifting: undefined };
+    }
+    if (s.peerVotes) merged[s.id] = { ...merged[s.id], peerVotes: { ...host.peerVotes, ...s.peerVotes } };
+    if (s.peerReviews) merged[s.id] = { ...merged[s.id], peerReviews: { ...host.peerReviews, ...s.peerReviews } };
+  });
+  return merged;
+};
+
+// A student who picked their name while the teacher's push was in flight stays let in
+const mergeSessions = (serverSessions = {}, hostSessions = {}) => {
+  const merged = { ...serverSessions, ...hostSessions };
+  Object.values(serverSessions).forEach(s => {
+    if (hostSessions[s.studentId]?.approval === 'pending' && !s.approval) merged[s.studentId] = s;
+  });
+  return merged;
+};
+
+/**
+ * Applies a full state pushed by the teacher. Answers and joins the server accepted
+ * while the teacher was away are kept: within the same round the teacher's copy wins
+ * for responses it knows about, and server-only responses are added back in.
+ */
+export const applyHostState = (code, hostState) => {
+  const current = getRoomState(code);
+  if (!current) return touch(code, hostState);
+  const sameRound = current.roundStartedAt === hostState.roundStartedAt;
+  return touch(code, {
+    ...hostState,
+    students: sameRound ? mergeResponses(current.students, hostState.students) : hostState.students,
+    sessions: mergeSessions(current.sessions, hostState.sessions),
+  });
+};
+
+// --- Students (the rules themselves are in shared/roomRules.js, used by the teacher's device too) ---
+
+export { scopeStateForStudent };
+
+export const findSessionByToken = (code, token) => {
+  const sessions = getRoomState(code)?.sessions;
+  if (!sessions || !token) return undefined;
+  return Object.values(sessions).find(s => s.token === token);
+};
+
+// Restores the identity behind a known token, or issues a new one
+export const acceptStudent = (code, name, token) => {
+  const state = getRoomState(code);
+  if (!state) return undefined;
+  const existing = findSessionByToken(code, token);
+  if (existing) return existing;
+  const session = newSession(state, name, { studentId: 'stu-' + randomId(6), token: randomId(16) });
+  if (!session) return undefined;
+  touch(code, { ...state, sessions: { ...state.sessions, [session.studentId]: session } });
+  return session;
+};
+
+export const claimName = (code, session, memberId) => {
+  const state = getRoomState(code);
+  if (!state) return undefined;
+  const admitted = applyClaimName(state, session, memberId);
+  return admitted ? touch(code, { ...state, sessions: { ...state.sessions, [session.studentId]: admitted } }) : state;
+};
+
+// Refused on the same terms as on the teacher's device, so answers stop on time even while the teacher is away.
+// Returns why the answer was refused, or null once it is stored.
+export const addAnswer = (code, session, text) => {
+  const state = getRoomState(code);
+  if (!state) return null;
+  const rejection = answerRejection(state, session, text);
+  if (rejection) return rejection;
+  // The teacher's device runs the lifting check when it next syncs
+  const response = buildResponse(state, session, text);
+  touch(code, { ...state, students: { ...state.students, [response.id]: response } });
+  return null;
+};
+
+export const addPeerVote = (code, session, payload = {}) => {
+  const state = getRoomState(code);
+  if (!state) return undefined;
+  const voted = applyPeerVote(state, session, payload);
+  return voted ? touch(code, { ...state, students: { ...state.students, [voted.id]: voted } }) : state;
+};
+
+export const addPeerReview = (code, session, payload = {}) => {
+  const state = getRoomState(code);
+  if (!state) return undefined;
+  const reviewed = applyPeerReview(state, session, payload);
+  return reviewed ? touch(code, { ...state, students: { ...state.students, [reviewed.id]: reviewed } }) : state;
+};
+
+load();
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createRoom, acceptStudent, addAnswer, getRoomState } from './roomStore.js';
+
+const openRound = (code, extra = {}) => {
+  createRoom(code, {
+    roomCode: code,
+    prompt: 'Explain the passage in your own words.',
+    maxScore: 4,
+    isAcceptingAnswers: true,
+    students: {},
+    sessions: {},
+    projectorDisplay: { type: 'prompt' },
+    roundStartedAt: 1,
+    ...extra,
+  });
+};
+
+describe('addAnswer', () => {
+  it('refuses answers while peer review is open, even with submissions reopened', () => {
+    openRound('PR01', { peerReview: { perStudent: 2, assignments: {}, startedAt: 1, releaseComments: false } });
+    const session = acceptStudent('PR01', 'Sam');
+    expect(addAnswer('PR01', session, 'My answer')).toBe('peer_review');
+    expect(getRoomState('PR01').students).toEqual({});
+  });
+
+  it('takes answers again once peer review has closed', () => {
+    openRound('PR02', { peerReview: { perStudent: 2, assignments: {}, startedAt: 1, closedAt: 2, releaseComments: false } });
+    const session = acceptStudent('PR02', 'Sam');
+    addAnswer('PR02', session, 'My answer');
+    expect(Object.values(getRoomState('PR02').students).map(s => s.text)).toEqual(['My answer']);
+  });
+
+  it('refuses answers from a name held for approval', () => {
+    openRound('AP01', { classMembers: [{ id: 'm1', name: 'Alice Smith', addedAt: 0 }] });
+    const session = acceptStudent('AP01', 'Somebody Else');
+    expect(session.approval).toBe('pending');
+    addAnswer('AP01', session, 'My answer');
+    expect(getRoomState('AP01').students).toEqual({});
+  });
+
+  it('refuses an answer that is not text', () => {
+    openRound('TX01');
+    const session = acceptStudent('TX01', 'Sam');
+    addAnswer('TX01', session, { text: 'My answer' });
+    addAnswer('TX01', session, '   ');
+    expect(getRoomState('TX01').students).toEqual({});
+  });
+});
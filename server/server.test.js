@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import path from 'path';
+import { io } from 'socket.io-client';
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const PORT = 30000 + Math.floor(Math.random() * 20000);
+
+let server;
+let socket;
+
+const hostJoin = (payload) => new Promise(resolve => socket.emit('host_join', payload, resolve));
+
+beforeAll(async () => {
+  server = spawn(process.execPath, ['server.js'], { cwd: root, env: { ...process.env, PORT: String(PORT), ROOM_STORE_FILE: '', TEACHER_PASSWORD: '' } });
+  await new Promise((resolve, reject) => {
+    server.stdout.on('data', (data) => { if (String(data).includes('Server running')) resolve(); });
+    server.on('exit', (code) => reject(new Error(`Server exited with code ${code}`)));
+  });
+  socket = io(`http://localhost:${PORT}`, { transports: ['websocket'] });
+  await new Promise(resolve => socket.on('connect', resolve));
+}, 20000);
+
+afterAll(() => {
+  socket?.close();
+  server?.kill();
+});
+
+describe('server', () => {
+  it('keeps running after malformed events from an anonymous socket', async () => {
+    socket.emit('host_state');
+    socket.emit('host_state', null);
+    socket.emit('host_state', { roomCode: ['AB12'], state: 'x' });
+    socket.emit('message');
+    socket.emit('message', 'AB12');
+    socket.emit('message', { roomCode: 'AB12', message: null });
+    socket.emit('join_room');
+    socket.emit('join_room', { roomCode: 'AB12' });
+    socket.emit('host_join');
+    expect(await hostJoin(null)).toEqual({ error: 'invalid' });
+
+    expect(server.exitCode).toBeNull();
+    const reply = await hostJoin({ roomCode: 'ZZ99', state: { roomCode: 'ZZ99', students: {} } });
+    expect(typeof reply.hostSecret).toBe('string');
+  });
+
+  it('relays only RESET_FORM from the host to students', async () => {
+    const reply = await hostJoin({ roomCode: 'RL01', state: { roomCode: 'RL01', students: {} } });
+    expect(reply.hostSecret).toBeDefined();
+    const student = io(`http://localhost:${PORT}`, { transports: ['websocket'] });
+    const received = [];
+    student.on('message', (msg) => received.push(msg.type));
+    await new Promise(resolve => student.on('connect', resolve));
+    student.emit('join_room', 'RL01');
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    socket.emit('message', { roomCode: 'RL01', message: { type: 'SYNC_STATE', scope: 'student', payload: { students: { leaked: {} } } } });
+    socket.emit('message', { roomCode: 'RL01', message: { type: 'RESET_FORM' } });
+    await new Promise(resolve => setTimeout(resolve, 200));
+    student.close();
+
+    // The first SYNC_STATE is the room's own scoped state, sent on joining
+    expect(received).toEqual(['SYNC_STATE', 'RESET_FORM']);
+  });
+
+  it('tells a student why their answer was refused', async () => {
+    await hostJoin({ roomCode: 'RJ01', state: { roomCode: 'RJ01', students: {}, sessions: {}, isAcceptingAnswers: false } });
+    const student = io(`http://localhost:${PORT}`, { transports: ['websocket'] });
+    const messages = [];
+    student.on('message', (msg) => messages.push(msg));
+    await new Promise(resolve => student.on('connect', resolve));
+    student.emit('join_room', 'RJ01');
+    student.emit('message', { roomCode: 'RJ01', message: { type: 'JOIN_REQUEST', payload: { name: 'Sam' } } });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const { token } = messages.find(m => m.type === 'JOIN_ACCEPTED').payload;
+
+    student.emit('message', { roomCode: 'RJ01', message: { type: 'SUBMIT_ANSWER', payload: { token, text: 'My answer' } } });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    student.close();
+
+    expect(messages.find(m => m.type === 'ANSWER_REJECTED')).toEqual({ type: 'ANSWER_REJECTED', payload: { reason: 'closed' } });
+  });
+});
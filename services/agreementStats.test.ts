@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { computeAgreement } from './agreementStats';
+import { StudentResponse } from '../types';
+
+let nextId = 0;
+const marked = (score: number | null, aiSuggestedScore?: number, extra: Partial<StudentResponse> = {}): StudentResponse => {
+  const id = `r${nextId++}`;
+  return { id, studentId: id, studentName: id, text: '', submittedAt: 0, score, aiSuggestedScore, ...extra };
+};
+
+describe('computeAgreement', () => {
+  it('reports nothing compared for an empty set', () => {
+    expect(computeAgreement([])).toEqual({
+      compared: 0, accepted: 0, exactMatchRate: 0, withinOneRate: 0, meanAbsoluteDifference: 0, maxScore: 0, matrix: [[0]],
+    });
+  });
+
+  it('leaves out unmarked answers, answers without a suggestion and accepted suggestions', () => {
+    const stats = computeAgreement([marked(null, 2), marked(3), marked(2, 2, { scoreSource: 'ai' })]);
+    expect(stats).toMatchObject({ compared: 0, accepted: 1, exactMatchRate: 0 });
+  });
+
+  it('counts exact agreement on the diagonal of the matrix', () => {
+    const stats = computeAgreement([marked(2, 2), marked(0, 0), marked(3, 3)]);
+    expect(stats).toMatchObject({ compared: 3, exactMatchRate: 1, withinOneRate: 1, meanAbsoluteDifference: 0, maxScore: 3 });
+    expect(stats.matrix[2][2]).toBe(1);
+    expect(stats.matrix[0][0]).toBe(1);
+  });
+
+  it('counts marks one apart as within tolerance but not as exact', () => {
+    const stats = computeAgreement([marked(2, 2), marked(3, 2), marked(1, 2), marked(4, 1)]);
+    expect(stats.exactMatchRate).toBe(0.25);
+    expect(stats.withinOneRate).toBe(0.75);
+    expect(stats.meanAbsoluteDifference).toBe(1.25);
+    expect(stats.matrix[3][2]).toBe(1);
+    expect(stats.matrix[4][1]).toBe(1);
+  });
+});
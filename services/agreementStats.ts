@@ -0,0 +1,39 @@
+import { StudentResponse } from '../types';
+
+export interface AgreementStats {
+  compared: number; // Answers with both an independent teacher mark and an AI suggestion
+  accepted: number; // Marks taken straight from the AI, left out of the comparison
+  exactMatchRate: number; // 0 to 1
+  withinOneRate: number; // 0 to 1; marks at most one apart, the usual tolerance when moderating
+  meanAbsoluteDifference: number;
+  maxScore: number; // Highest mark in the matrix
+  matrix: number[][]; // matrix[teacherScore][aiScore] = count
+}
+
+/**
+ * How closely the AI's suggestions match the teacher's own marks across a set of answers.
+ * Accepted suggestions would agree by definition, so only marks the teacher gave themselves are compared.
+ */
+export const computeAgreement = (responses: StudentResponse[]): AgreementStats => {
+  const accepted = responses.filter(r => r.scoreSource === 'ai').length;
+  const pairs = responses
+    .filter(r => r.score !== null && r.aiSuggestedScore !== undefined && r.scoreSource !== 'ai')
+    .map(r => ({ teacher: r.score as number, ai: r.aiSuggestedScore as number }));
+
+  const maxScore = pairs.reduce((max, p) => Math.max(max, p.teacher, p.ai), 0);
+  const matrix = Array.from({ length: maxScore + 1 }, () => new Array(maxScore + 1).fill(0));
+  pairs.forEach(p => { matrix[p.teacher][p.ai]++; });
+
+  const exact = pairs.filter(p => p.teacher === p.ai).length;
+  const withinOne = pairs.filter(p => Math.abs(p.teacher - p.ai) <= 1).length;
+  const totalDifference = pairs.reduce((acc, p) => acc + Math.abs(p.teacher - p.ai), 0);
+  return {
+    compared: pairs.length,
+    accepted,
+    exactMatchRate: pairs.length ? exact / pairs.length : 0,
+    withinOneRate: pairs.length ? withinOne / pairs.length : 0,
+    meanAbsoluteDifference: pairs.length ? totalDifference / pairs.length : 0,
+    maxScore,
+    matrix,
+  };
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { GradingRequest, normaliseGradingResult, parseModelJson } from './aiGrading';
+
+const request = (extra: Partial<GradingRequest> = {}): GradingRequest => ({
+  prompt: 'Explain the passage in your own words.',
+  answer: 'An answer',
+  maxScore: 4,
+  passageExtract: '',
+  markingScheme: [],
+  ...extra,
+});
+
+const reasonOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (error: any) {
+    return error.reason;
+  }
+  return undefined;
+};
+
+describe('parseModelJson', () => {
+  it('reads JSON wrapped in a code fence or a sentence', () => {
+    expect(parseModelJson('```json\n{"score": 2, "feedback": "Good"}\n```')).toEqual({ score: 2, feedback: 'Good' });
+    expect(parseModelJson('Here is the grade: {"score": 1} Hope that helps.')).toEqual({ score: 1 });
+  });
+
+  it('gives malformed_json for a reply with no JSON or broken JSON', () => {
+    expect(reasonOf(() => parseModelJson('I would give this a 3.'))).toBe('malformed_json');
+    expect(reasonOf(() => parseModelJson('{"score": 3,'))).toBe('malformed_json');
+    expect(reasonOf(() => parseModelJson('{score: 3}'))).toBe('malformed_json');
+  });
+});
+
+describe('normaliseGradingResult', () => {
+  it('rounds the score and keeps confidence within 0 to 1', () => {
+    expect(normaliseGradingResult({ score: '2.6', feedback: ' Clear ', confidence: 1.5 }, request()))
+      .toEqual({ score: 3, feedback: 'Clear', confidence: 1 });
+  });
+
+  it('gives out_of_range for a score outside 0 to maxScore', () => {
+    expect(reasonOf(() => normaliseGradingResult({ score: 5 }, request()))).toBe('out_of_range');
+    expect(reasonOf(() => normaliseGradingResult({ score: -1 }, request()))).toBe('out_of_range');
+  });
+
+  it('gives malformed_json for a reply that is not an object or has no score', () => {
+    expect(reasonOf(() => normaliseGradingResult([{ score: 2 }], request()))).toBe('malformed_json');
+    expect(reasonOf(() => normaliseGradingResult('2', request()))).toBe('malformed_json');
+    expect(reasonOf(() => normaliseGradingResult({ feedback: 'Good' }, request()))).toBe('malformed_json');
+  });
+
+  it('scores from the scheme points the reply ticked, ignoring ids not in the scheme', () => {
+    const markingScheme = [{ id: 'p1', text: 'Point one', marks: 1 }, { id: 'p2', text: 'Point two', marks: 2 }];
+    const result = normaliseGradingResult({ score: 4, matchedPoints: ['p2', 'p9', 7] }, request({ markingScheme }));
+    expect(result).toMatchObject({ score: 2, matchedPoints: ['p2'] });
+  });
+});
@@ -0,0 +1,140 @@
+import { MarkingPoint, GradingFailureReason } from '../types';
+import { scoreFromPoints } from './markingScheme';
+
+export type GradingProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface GradingRequest {
+  prompt: string;
+  answer: string;
+  maxScore: number;
+  passageExtract: string;
+  markingScheme: MarkingPoint[];
+}
+
+export interface GradingResult {
+  score: number;
+  feedback: string;
+  confidence?: number; // 0 to 1, when the provider gives one
+  matchedPoints?: string[];
+}
+
+// What evaluateAnswer hands back: a suggestion, or the reason there is none. A failure is never a score of 0.
+export type GradingOutcome =
+  | ({ status: 'success' } & GradingResult)
+  | { status: 'failure'; reason: GradingFailureReason; message: string };
+
+// What a provider needs to reach its model; filled from the teacher's grading settings
+export interface GradingConfig {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface GradingProvider {
+  id: GradingProviderId;
+  label: string;
+  defaultModel: string;
+  needsApiKey: boolean;
+  rateLimited: boolean; // Calls are spaced out to the teacher's requests-per-minute setting
+  evaluate: (request: GradingRequest, config: GradingConfig) => Promise<GradingResult>;
+}
+
+// Thrown by providers; evaluateAnswer turns it into a failed GradingOutcome
+export class GradingError extends Error {
+  constructor(public reason: GradingFailureReason, message: string) {
+    super(message);
+    this.name = 'GradingError';
+  }
+}
+
+// Worth another attempt after a pause: the request itself was fine
+export const isRetryableReason = (reason: GradingFailureReason) =>
+  reason === 'rate_limit' || reason === 'unavailable' || reason === 'network';
+
+export const reasonFromStatus = (status: number): GradingFailureReason => {
+  if (status === 401 || status === 403) return 'invalid_key';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'unavailable';
+  return 'provider_error';
+};
+
+// Models often wrap JSON in a code fence or add a sentence around it, so only the outermost braces are parsed
+export const parseModelJson = (text: string): unknown => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new GradingError('malformed_json', 'The AI reply contained no JSON.');
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new GradingError('malformed_json', 'The AI reply was not valid JSON.');
+  }
+};
+
+/** The grading instructions every LLM provider sends, so they all mark to the same rubric. */
+export const buildGradingPrompt = ({ prompt, answer, maxScore, passageExtract, markingScheme }: GradingRequest): string => {
+  // Ground the grading in the source wording when the question refers to a passage
+  const sourceContext = passageExtract
+    ? `Source Passage Extract (the lines the question refers to): """${passageExtract}"""`
+    : '';
+
+  // A per-question scheme replaces the generic rubric
+  const rubric = markingScheme.length
+    ? `Award marks only for these creditable points, and only where they are expressed in the student's own words:
+           ${markingScheme.map(p => `- [${p.id}] (${p.marks} mark${p.marks === 1 ? '' : 's'}) ${p.text}`).join('\n           ')}
+           List the ids of the points the answer hits. The score is their total, capped at ${maxScore}.`
+    : `- 0: Incorrect, completely lifted, or irrelevant.
+           - ${maxScore}: Excellent, clear, fully accurate, used own words.
+           - Intermediate values: Partially correct or minor lifting.`;
+
+  return `
+        You are an expert English teacher grading "Own Words" questions for National 5 exams.
+
+        Question Prompt: "${prompt}"
+        ${sourceContext}
+        Student Answer: "${answer}"
+        Max Possible Score: ${maxScore}
+
+        Task:
+        1. Determine if the student answered the prompt correctly using their own words (paraphrasing).
+           ${passageExtract ? 'Compare the answer against the source extract: key words and phrases copied from it count as lifted, not as own words.' : ''}
+        2. Assign a score: An integer between 0 and ${maxScore}.
+           ${rubric}
+        3. Provide brief, constructive feedback (max 15 words).
+        4. Say how confident you are in the score, from 0 to 1.
+
+        Respond with JSON only: {"score": <integer>, "feedback": "<text>", "confidence": <number>, "matchedPoints": ["<point id>", ...]}
+      `;
+};
+
+/**
+ * Turns a model's parsed JSON into a result. With a scheme, the score is derived from the ticked points;
+ * otherwise it must be a number from 0 to maxScore (fractions are rounded), or the reply is rejected.
+ */
+export const normaliseGradingResult = (parsed: unknown, { maxScore, markingScheme }: GradingRequest): GradingResult => {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new GradingError('malformed_json', 'The AI reply was not a JSON object.');
+  }
+  const raw = parsed as Record<string, unknown>;
+  const feedback = typeof raw.feedback === 'string' && raw.feedback.trim() ? raw.feedback.trim() : "No feedback generated.";
+  const confidence = typeof raw.confidence === 'number' && isFinite(raw.confidence)
+    ? Math.min(1, Math.max(0, raw.confidence))
+    : undefined;
+
+  if (markingScheme.length) {
+    // Only trust ids that exist, and derive the score from them so it matches the ticks
+    const ids = new Set(markingScheme.map(p => p.id));
+    const matchedPoints = (Array.isArray(raw.matchedPoints) ? raw.matchedPoints : [])
+      .filter((id): id is string => typeof id === 'string' && ids.has(id));
+    return { score: scoreFromPoints(markingScheme, matchedPoints, maxScore), feedback, confidence, matchedPoints };
+  }
+
+  const score = typeof raw.score === 'string' ? Number(raw.score) : raw.score;
+  if (typeof score !== 'number' || !isFinite(score)) {
+    throw new GradingError('malformed_json', 'The AI reply had no score.');
+  }
+  const rounded = Math.round(score);
+  if (rounded < 0 || rounded > maxScore) {
+    throw new GradingError('out_of_range', `The AI suggested ${score}, outside 0 to ${maxScore}.`);
+  }
+  return { score: rounded, feedback, confidence };
+};
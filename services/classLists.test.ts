@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The class list service loads saved lists when imported
+vi.hoisted(() => {
+  const store = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); },
+  } as Storage;
+});
+
+import { parseClassListCsv } from './classLists';
+
+describe('parseClassListCsv', () => {
+  it('finds the name and candidate number columns from the header', () => {
+    const csv = 'Class,Candidate Number,Pupil Name\n4A,4021,Bob Martin\n4A,4022,Alice Smith\n';
+    expect(parseClassListCsv(csv)).toEqual([
+      { name: 'Bob Martin', candidateNumber: '4021' },
+      { name: 'Alice Smith', candidateNumber: '4022' },
+    ]);
+  });
+
+  it('joins separate first name and surname columns', () => {
+    expect(parseClassListCsv('Surname,Forename\nSmith,Alice')).toEqual([{ name: 'Alice Smith', candidateNumber: undefined }]);
+  });
+
+  it('reads a quoted "Surname, Forename" as one name', () => {
+    const csv = 'Name,Candidate number\r\n"Martin, Bob",4021\r\n"O\'Neill, Zoë ""Zo""",\r\n';
+    expect(parseClassListCsv(csv)).toEqual([
+      { name: 'Bob Martin', candidateNumber: '4021' },
+      { name: 'Zoë "Zo" O\'Neill', candidateNumber: undefined },
+    ]);
+  });
+
+  it('reads the header of a file saved with a byte order mark', () => {
+    expect(parseClassListCsv('\uFEFFName,Candidate number\nAlice Smith,4022')).toEqual([{ name: 'Alice Smith', candidateNumber: '4022' }]);
+  });
+
+  it('skips blank lines and rows without a name', () => {
+    const csv = 'Name,Candidate number\n\nAlice Smith,4022\n , \n,4023\n\n';
+    expect(parseClassListCsv(csv)).toEqual([{ name: 'Alice Smith', candidateNumber: '4022' }]);
+  });
+
+  it('takes the first column as the name and the second as the number when there is no header', () => {
+    expect(parseClassListCsv('Alice Smith\tS1\nBob Martin')).toEqual([
+      { name: 'Alice Smith', candidateNumber: 'S1' },
+      { name: 'Bob Martin', candidateNumber: undefined },
+    ]);
+    expect(parseClassListCsv('')).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+import { ClassList, ClassMember, StudentSession } from '../types';
+import { matchClassMember, unclaimedMembers } from '../shared/roomRules';
+
+const CLASSES_KEY = 'own_words_wiz_classes';
+
+const newId = () => 'pupil-' + Date.now().toString(36) + Math.random().toString(36).substring(2, 6);
+
+const normaliseName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// The class list entry with exactly this name, ignoring case and spacing
+export const findMemberByName = (list: ClassList | undefined, name: string): ClassMember | undefined => {
+  if (!list) return undefined;
+  const wanted = normaliseName(name);
+  return (Object.values(list.members) as ClassMember[]).find(m => normaliseName(m.name) === wanted);
+};
+
+export const sortedMembers = (list: ClassList | undefined): ClassMember[] =>
+  list ? (Object.values(list.members) as ClassMember[]).sort((a, b) => a.name.localeCompare(b.name)) : [];
+
+// --- Matching typed names to the list ---
+
+export { unclaimedMembers, matchClassMember } from '../shared/roomRules';
+
+/**
+ * Links each unlinked login that matches an unclaimed entry on the class list, and lets it in
+ * if it was waiting for approval. An entry is only ever given to one login, so two pupils
+ * typing the same name don't both get it. Returns the same object when nothing changed.
+ */
+export const linkSessionsByName = (sessions: Record<string, StudentSession>, members: ClassMember[] | undefined): Record<string, StudentSession> => {
+  if (!members?.length) return sessions;
+  let linked: Record<string, StudentSession> | null = null;
+  (Object.values(sessions) as StudentSession[])
+    .filter(s => !s.memberId && s.approval !== 'rejected')
+    .forEach(s => {
+      const member = matchClassMember(unclaimedMembers(members, linked || sessions), s.name);
+      if (!member) return;
+      linked = { ...(linked || sessions), [s.studentId]: { ...s, memberId: member.id, approval: undefined } };
+    });
+  return linked || sessions;
+};
+
+// --- CSV import ---
+
+export interface ClassListRow {
+  name: string;
+  candidateNumber?: string;
+}
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',' || ch === '\t') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else cell += ch;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows.map(r => r.map(c => c.trim())).filter(r => r.some(Boolean));
+};
+
+/**
+ * Reads a class list exported from a register or spreadsheet. With a header row, the columns
+ * are found by name ("Name", or "First name" and "Surname", plus "Candidate number");
+ * without one, the first column is the name and the second, if any, the candidate number.
+ */
+export const parseClassListCsv = (text: string): ClassListRow[] => {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(c => c.toLowerCase());
+  const find = (pattern: RegExp) => header.findIndex(c => pattern.test(c));
+  const first = find(/first|forename|given/);
+  const last = find(/last|surname|family/);
+  const full = find(/^((full|pupil|student|candidate) )?name$/);
+  const candidate = header.findIndex(c => !/name/.test(c) && /candidate|exam|number|^uci$|^no\.?$/.test(c));
+  const hasHeader = first >= 0 || last >= 0 || full >= 0 || candidate >= 0;
+  const body = hasHeader ? rows.slice(1) : rows;
+  return body
+    .map(r => {
+      const name = hasHeader
+        ? (full >= 0 ? r[full] : [r[first], r[last]].filter(Boolean).join(' '))
+        : r[0];
+      const number = hasHeader ? (candidate >= 0 ? r[candidate] : undefined) : r[1];
+      // Registers often list "Surname, Forename"
+      const ordered = (name || '').includes(',') ? name.split(',').map(part => part.trim()).reverse().join(' ') : name || '';
+      return { name: ordered.replace(/\s+/g, ' ').trim(), candidateNumber: number || undefined };
+    })
+    .filter(r => r.name);
+};
+
+/**
+ * ClassListService keeps the teacher's class lists in localStorage, keyed by class name.
+ * Logins are linked to a list entry so a pupil's rounds can be followed across sessions
+ * even when they type their name differently. In server mode the names (not candidate numbers)
+ * also go up with the room, so the server can match students who join while the teacher is away.
+ */
+class ClassListService {
+  private lists: Record<string, ClassList>;
+  private listeners: ((lists: Record<string, ClassList>) => void)[] = [];
+
+  constructor() {
+    const saved = localStorage.getItem(CLASSES_KEY);
+    this.lists = saved ? JSON.parse(saved) : {};
+  }
+
+  public getList(className?: string): ClassList | undefined {
+    return className ? this.lists[className] : undefined;
+  }
+
+  public getClassNames(): string[] {
+    return Object.keys(this.lists).sort((a, b) => a.localeCompare(b));
+  }
+
+  public subscribe(callback: (lists: Record<string, ClassList>) => void): () => void {
+    this.listeners.push(callback);
+    callback(this.lists);
+    return () => { this.listeners = this.listeners.filter(l => l !== callback); };
+  }
+
+  private persist() {
+    localStorage.setItem(CLASSES_KEY, JSON.stringify(this.lists));
+    this.listeners.forEach(l => l({ ...this.lists }));
+  }
+
+  private update(className: string, members: Record<string, ClassMember>) {
+    this.lists = { ...this.lists, [className]: { className, members, updatedAt: Date.now() } };
+    this.persist();
+  }
+
+  // Returns the existing entry if the name is already on the list
+  public addMember(className: string, name: string): ClassMember {
+    const list = this.lists[className];
+    const existing = findMemberByName(list, name);
+    if (existing) return existing;
+    const member: ClassMember = { id: newId(), name: name.trim().replace(/\s+/g, ' '), addedAt: Date.now() };
+    this.update(className, { ...list?.members, [member.id]: member });
+    return member;
+  }
+
+  // Rows already on the list, by candidate number or else by name, are updated rather than added twice
+  public importMembers(className: string, rows: ClassListRow[]): { added: number; updated: number } {
+    const members = { ...this.lists[className]?.members };
+    let added = 0;
+    let updated = 0;
+    rows.forEach(row => {
+      const all = Object.values(members) as ClassMember[];
+      const existing = (row.candidateNumber && all.find(m => m.candidateNumber === row.candidateNumber))
+        || all.find(m => normaliseName(m.name) === normaliseName(row.name));
+      if (existing) {
+        if (existing.name === row.name && (!row.candidateNumber || existing.candidateNumber === row.candidateNumber)) return;
+        members[existing.id] = { ...existing, name: row.name, candidateNumber: row.candidateNumber || existing.candidateNumber };
+        updated++;
+      } else {
+        const member: ClassMember = { id: newId(), name: row.name, candidateNumber: row.candidateNumber, addedAt: Date.now() };
+        members[member.id] = member;
+        added++;
+      }
+    });
+    if (added || updated) this.update(className, members);
+    return { added, updated };
+  }
+
+  public renameMember(className: string, id: string, name: string) {
+    const member = this.lists[className]?.members[id];
+    if (!member || !name.trim()) return;
+    this.update(className, { ...this.lists[className].members, [id]: { ...member, name: name.trim() } });
+  }
+
+  public removeMember(className: string, id: string) {
+    const list = this.lists[className];
+    if (!list?.members[id]) return;
+    const members = { ...list.members };
+    delete members[id];
+    this.update(className, members);
+  }
+}
+
+export const classLists = new ClassListService();
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { buildCsv } from './exportService';
+import { ArchivedRound, StudentResponse } from '../types';
+
+const roundWith = (responses: Partial<StudentResponse>[]): ArchivedRound => ({
+  id: 'round-1',
+  prompt: 'Explain the passage in your own words.',
+  maxScore: 4,
+  archivedAt: 0,
+  students: Object.fromEntries(responses.map((r, i) => [`r${i}`, {
+    id: `r${i}`, studentId: `s${i}`, studentName: `Student ${i}`, text: '', submittedAt: 0, score: null, ...r,
+  }])),
+});
+
+const cells = (csv: string, row: number) => csv.split('\r\n')[row].split(',');
+
+describe('buildCsv', () => {
+  it('neutralises cells a spreadsheet would run as a formula', () => {
+    const csv = buildCsv(roundWith([
+      { studentName: '=HYPERLINK("http://example.com")', text: '+1', teacherComment: '@SUM(A1)' },
+      { studentName: 'Student B', text: '-2', aiFeedback: '\tTabbed' },
+    ]));
+    expect(csv).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+    expect(cells(csv, 1)[1]).toBe("'+1");
+    expect(cells(csv, 1)).toContain("'@SUM(A1)");
+    expect(cells(csv, 2)[1]).toBe("'-2");
+    expect(cells(csv, 2)).toContain("'\tTabbed");
+  });
+
+  it('leaves ordinary text and marks alone', () => {
+    const csv = buildCsv(roundWith([{ studentName: 'Sam', text: 'The writer means a = b', score: 3 }]));
+    expect(cells(csv, 1).slice(0, 4)).toEqual(['Sam', 'The writer means a = b', '3', '4']);
+  });
+});
@@ -0,0 +1,159 @@
+import { GameState, ArchivedRound, StudentResponse, StudentSession } from '../types';
+import { getPassageExtract, formatLineReference } from './passageService';
+import { averagePeerScore } from './peerReview';
+
+/** The current round in the same shape as an archived one, so every export works on either. */
+export const roundFromState = (state: GameState): ArchivedRound => ({
+  id: 'current',
+  prompt: state.prompt,
+  maxScore: state.maxScore,
+  passage: state.passage,
+  questionId: state.lesson?.questionIds[state.lesson.index],
+  lessonId: state.lesson?.id,
+  students: state.students,
+  startedAt: state.roundStartedAt,
+  archivedAt: Date.now(),
+});
+
+const sortedResponses = (round: ArchivedRound) =>
+  (Object.values(round.students) as StudentResponse[]).sort((a, b) => a.studentName.localeCompare(b.studentName));
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+// --- CSV ---
+
+// Spreadsheets run a cell starting with one of these as a formula, so a student could type "=HYPERLINK(...)"
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number | null | undefined) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Average of the peer-assessment marks, to one decimal place
+const peerMark = (r: StudentResponse) => {
+  const average = averagePeerScore(r.peerReviews);
+  return average === null ? undefined : Math.round(average * 10) / 10;
+};
+
+export const buildCsv = (round: ArchivedRound): string => {
+  const header = ['Name', 'Answer', 'Teacher Score', 'Max Score', 'AI Suggested Score', 'AI Feedback', 'Peer Mark', 'Teacher Comment', 'Lifting %', 'Submitted At', 'Late'];
+  const rows = sortedResponses(round).map(r => [
+    r.studentName,
+    r.text,
+    r.score,
+    round.maxScore,
+    r.aiSuggestedScore,
+    r.aiFeedback,
+    peerMark(r),
+    r.teacherComment,
+    r.lifting?.percentage,
+    new Date(r.submittedAt).toISOString(),
+    r.late ? 'Yes' : '',
+  ]);
+  // Leading BOM so Excel opens names with accents correctly
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+// --- JSON ---
+
+/** Everything about the session except secrets: students' rejoin tokens are removed. */
+export const buildSessionJson = (state: GameState, archive: ArchivedRound[]): string => {
+  const sessions: Record<string, Omit<StudentSession, 'token'>> = {};
+  (Object.values(state.sessions || {}) as StudentSession[]).forEach(({ token, ...rest }) => { sessions[rest.studentId] = rest; });
+  return JSON.stringify({
+    app: 'own-words-wiz',
+    exportedAt: new Date().toISOString(),
+    roomCode: state.roomCode,
+    currentRound: roundFromState(state),
+    students: sessions,
+    archivedRounds: archive.map(({ sessions, ...round }) => round),
+  }, null, 2);
+};
+
+// --- Printable report ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const buildReportHtml = (round: ArchivedRound, roomCode?: string): string => {
+  const responses = sortedResponses(round);
+  const graded = responses.filter(r => r.score !== null);
+  const average = graded.length ? (graded.reduce((acc, r) => acc + (r.score || 0), 0) / graded.length).toFixed(1) : '-';
+  const passage = round.passage
+    ? `<section class="passage">
+        <h2>${escapeHtml(round.passage.title || 'Source Passage')}${round.passage.targetLines ? ` (${formatLineReference(round.passage)})` : ''}</h2>
+        <blockquote>${escapeHtml(getPassageExtract(round.passage)).replace(/\n/g, '<br>')}</blockquote>
+      </section>`
+    : '';
+  const rows = responses.map(r => `
+      <tr>
+        <td>${escapeHtml(r.studentName)}</td>
+        <td>${escapeHtml(r.text)}</td>
+        <td class="mark">${r.score ?? '-'} / ${round.maxScore}</td>
+        <td class="mark">${r.aiSuggestedScore ?? '-'}</td>
+        <td>${r.teacherComment ? `<div>${escapeHtml(r.teacherComment)}</div>` : ''}${escapeHtml(r.aiFeedback || '')}${r.lifting ? `<div class="lifting">Lifting: ${r.lifting.percentage}%</div>` : ''}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Own Words Wiz Report</title>
+<style>
+  body { font-family: Inter, Arial, sans-serif; color: #111827; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1rem; margin: 1.5rem 0 0.5rem; }
+  .meta { color: #6b7280; font-size: 0.85rem; }
+  .prompt { font-size: 1.1rem; margin-top: 1rem; }
+  blockquote { font-family: Georgia, serif; border-left: 3px solid #d1d5db; margin: 0; padding-left: 1rem; }
+  table { width: 100%; border-collapse: collapse; margin-top: 1.5rem; font-size: 0.9rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .mark { white-space: nowrap; text-align: center; }
+  .lifting { color: #b91c1c; font-size: 0.8rem; margin-top: 0.25rem; }
+  tr { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+  <h1>Own Words Wiz: Round Report</h1>
+  <div class="meta">
+    ${roomCode ? `Class ${escapeHtml(roomCode)} · ` : ''}${round.startedAt ? `Started ${formatTime(round.startedAt)} · ` : ''}${responses.length} responses · Average ${average} / ${round.maxScore}
+  </div>
+  <p class="prompt"><strong>Question (${round.maxScore} marks):</strong> ${escapeHtml(round.prompt || '(No prompt)')}</p>
+  ${passage}
+  <table>
+    <thead><tr><th>Name</th><th>Answer</th><th>Teacher</th><th>AI</th><th>Feedback</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`;
+};
+
+// --- Browser helpers ---
+
+export const exportFileName = (roomCode: string | undefined, extension: string) => {
+  const date = new Date().toISOString().slice(0, 10);
+  return `own-words-${roomCode || 'class'}-${date}.${extension}`;
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Opens the report in a new window and brings up the print dialog (or "Save as PDF")
+export const openPrintableReport = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  setTimeout(() => win.print(), 250);
+  return true;
+};
@@ -1,58 +1,41 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI, Type, ApiError } from "@google/genai";
+import { GradingProvider, GradingError, buildGradingPrompt, normaliseGradingResult, parseModelJson, reasonFromStatus } from "./aiGrading";
 
-export const evaluateAnswer = async (
-  prompt: string,
-  studentAnswer: string,
-  maxScore: number = 2
-): Promise<{ score: number; feedback: string }> => {
-  // Fix: Use process.env.API_KEY directly as required by guidelines
-  if (!process.env.API_KEY) {
-    return { score: 0, feedback: "API Key missing. Cannot evaluate." };
-  }
+export const geminiProvider: GradingProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  needsApiKey: true,
+  rateLimited: true,
+  evaluate: async (request, { model, apiKey }) => {
+    const ai = new GoogleGenAI({ apiKey });
 
-  try {
-    // Fix: Initialize using the environment variable
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
     // We ask for a JSON response for structured data
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `
-        You are an expert English teacher grading "Own Words" questions for National 5 exams.
-        
-        Question Prompt: "${prompt}"
-        Student Answer: "${studentAnswer}"
-        Max Possible Score: ${maxScore}
-        
-        Task:
-        1. Determine if the student answered the prompt correctly using their own words (paraphrasing).
-        2. Assign a score: An integer between 0 and ${maxScore}.
-           - 0: Incorrect, completely lifted, or irrelevant.
-           - ${maxScore}: Excellent, clear, fully accurate, used own words.
-           - Intermediate values: Partially correct or minor lifting.
-        3. Provide brief, constructive feedback (max 15 words).
-      `,
+      model,
+      contents: buildGradingPrompt(request),
       config: {
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: {
-            score: { type: Type.INTEGER, description: `Score between 0 and ${maxScore}` },
+            score: { type: Type.INTEGER, description: `Score between 0 and ${request.maxScore}` },
             feedback: { type: Type.STRING, description: "Brief feedback for the teacher" },
+            confidence: { type: Type.NUMBER, description: "How sure you are of the score, 0 to 1" },
+            matchedPoints: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "Ids of the marking scheme points the answer hits",
+            },
           },
           required: ["score", "feedback"],
         },
       },
+    }).catch((error) => {
+      if (error instanceof ApiError) throw new GradingError(reasonFromStatus(error.status), error.message);
+      throw new GradingError('network', error?.message || 'Could not reach Gemini.');
     });
 
-    const result = JSON.parse(response.text || "{}");
-    return {
-      score: result.score ?? 0,
-      feedback: result.feedback || "No feedback generated.",
-    };
-
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return { score: 0, feedback: "AI evaluation failed." };
-  }
-};
\ No newline at end of file
+    return normaliseGradingResult(parseModelJson(response.text || ""), request);
+  },
+};
@@ -0,0 +1,155 @@
+import { StudentResponse } from '../types';
+import { backend } from './mockBackend';
+import { evaluateAnswer, gradingSettings } from './gradingService';
+import { isRetryableReason } from './aiGrading';
+import { getPassageExtract } from './passageService';
+
+// Requests in flight at once; enough to be quick without tripping provider rate limits
+const CONCURRENCY = 3;
+const MAX_ATTEMPTS = 3;
+// Wait before the first retry; doubles on each later one
+const BACKOFF_MS = 1000;
+
+export type GradingJobStatus = 'queued' | 'grading';
+
+export interface GradingProgress {
+  total: number; // Answers in the current batch
+  done: number;
+  failed: number;
+  jobs: Record<string, GradingJobStatus>; // Response id to status, for answers not yet finished
+}
+
+// No suggestion yet, or the answer has changed since it was graded
+export const needsGrading = (response: StudentResponse) =>
+  response.aiSuggestedScore === undefined || (response.aiGradedText !== undefined && response.aiGradedText !== response.text);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * GradingQueueService sends answers to the AI grader a few at a time on the teacher's device,
+ * spaced to the requests-per-minute setting. With auto-grade on, it picks up each new answer itself.
+ * Results and failures are written to each response through the backend, so they sync like any other edit.
+ */
+class GradingQueueService {
+  private queue: string[] = [];
+  private running = 0;
+  private lastStartedAt = 0;
+  private waitTimer: ReturnType<typeof setTimeout> | null = null;
+  private generation = 0; // Bumped by cancel() so pending retries give up
+  private progress: GradingProgress = { total: 0, done: 0, failed: 0, jobs: {} };
+  private listeners: ((progress: GradingProgress) => void)[] = [];
+
+  constructor() {
+    backend.subscribeNewAnswers((ids) => {
+      if (gradingSettings.getSettings().autoGrade) this.enqueue(ids);
+    });
+  }
+
+  public getProgress(): GradingProgress { return this.progress; }
+
+  public isActive(): boolean { return Object.keys(this.progress.jobs).length > 0; }
+
+  public subscribe(callback: (progress: GradingProgress) => void): () => void {
+    this.listeners.push(callback);
+    callback(this.progress);
+    return () => { this.listeners = this.listeners.filter(l => l !== callback); };
+  }
+
+  private update(changes: Partial<GradingProgress>) {
+    this.progress = { ...this.progress, ...changes };
+    this.listeners.forEach(l => l(this.progress));
+  }
+
+  private setJobs(ids: string[], status?: GradingJobStatus) {
+    const jobs = { ...this.progress.jobs };
+    ids.forEach(id => { if (status) jobs[id] = status; else delete jobs[id]; });
+    return jobs;
+  }
+
+  public enqueue(ids: string[]) {
+    const fresh = ids.filter(id => !this.progress.jobs[id]);
+    if (!fresh.length) return;
+    // Counters restart when the previous batch has finished
+    const total = this.isActive() ? this.progress.total + fresh.length : fresh.length;
+    const counters = this.isActive() ? {} : { done: 0, failed: 0 };
+    this.queue.push(...fresh);
+    this.update({ ...counters, total, jobs: this.setJobs(fresh, 'queued') });
+    this.pump();
+  }
+
+  // Drops answers still waiting. Requests already sent finish, since their cost is spent.
+  public cancel() {
+    this.generation++;
+    const dropped = this.queue;
+    this.queue = [];
+    this.update({ total: this.progress.total - dropped.length, jobs: this.setJobs(dropped) });
+  }
+
+  private pump() {
+    if (this.waitTimer) return;
+    while (this.running < CONCURRENCY && this.queue.length) {
+      const wait = this.lastStartedAt + gradingSettings.getRequestInterval() - Date.now();
+      if (wait > 0) {
+        this.waitTimer = setTimeout(() => {
+          this.waitTimer = null;
+          this.pump();
+        }, wait);
+        return;
+      }
+      this.lastStartedAt = Date.now();
+      const id = this.queue.shift()!;
+      this.running++;
+      this.grade(id, this.generation).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async grade(id: string, generation: number) {
+    this.update({ jobs: this.setJobs([id], 'grading') });
+    let failed = false;
+    let cancelled = false;
+    for (let attempt = 1; ; attempt++) {
+      // Read the state afresh each attempt: the prompt or scheme may have changed, or the round been reset
+      const state = backend.getState();
+      const response = state.students[id];
+      if (!response) break;
+      const outcome = await evaluateAnswer({
+        prompt: state.prompt,
+        answer: response.text,
+        maxScore: state.maxScore,
+        passageExtract: getPassageExtract(state.passage),
+        markingScheme: state.markingScheme || [],
+      });
+      if (outcome.status === 'success') {
+        const { status, ...suggestion } = outcome;
+        backend.updateStudentAiData(id, suggestion, response.text);
+        break;
+      }
+      if (isRetryableReason(outcome.reason) && attempt < MAX_ATTEMPTS && generation === this.generation) {
+        await sleep(BACKOFF_MS * 2 ** (attempt - 1));
+        // Cancelled while waiting: don't spend another request or write over the cancelled job
+        if (generation !== this.generation) {
+          cancelled = true;
+          break;
+        }
+        continue;
+      }
+      backend.updateStudentAiError(id, outcome.reason, outcome.message);
+      failed = true;
+      break;
+    }
+    if (cancelled) {
+      this.update({ total: this.progress.total - 1, jobs: this.setJobs([id]) });
+      return;
+    }
+    this.update({
+      done: this.progress.done + 1,
+      failed: this.progress.failed + (failed ? 1 : 0),
+      jobs: this.setJobs([id]),
+    });
+  }
+}
+
+export const gradingQueue = new GradingQueueService();
@@ -0,0 +1,95 @@
+import { GradingProvider, GradingProviderId, GradingRequest, GradingOutcome, GradingConfig, GradingError } from './aiGrading';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider, DEFAULT_OPENAI_BASE_URL } from './openAiProvider';
+import { mockGradingProvider } from './mockGradingProvider';
+
+const SETTINGS_KEY = 'own_words_wiz_grading';
+
+export const GRADING_PROVIDERS: GradingProvider[] = [geminiProvider, openAiCompatibleProvider, mockGradingProvider];
+
+export interface GradingSettings {
+  provider: GradingProviderId;
+  models: Partial<Record<GradingProviderId, string>>;
+  apiKeys: Partial<Record<GradingProviderId, string>>;
+  baseUrl: string; // OpenAI-compatible endpoint only
+  autoGrade: boolean; // Grade each answer as it arrives
+  requestsPerMinute: number;
+}
+
+const defaultSettings: GradingSettings = {
+  provider: 'gemini',
+  models: {},
+  apiKeys: {},
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  autoGrade: false,
+  requestsPerMinute: 30,
+};
+
+export const getGradingProvider = (id: GradingProviderId): GradingProvider =>
+  GRADING_PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+/**
+ * GradingSettingsService remembers which provider and model the teacher grades with.
+ * Keys typed here stay in this browser's localStorage; the Gemini key from the build is the fallback.
+ */
+class GradingSettingsService {
+  private settings: GradingSettings;
+  private listeners: ((settings: GradingSettings) => void)[] = [];
+
+  constructor() {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    this.settings = saved ? { ...defaultSettings, ...JSON.parse(saved) } : defaultSettings;
+  }
+
+  public getSettings(): GradingSettings { return this.settings; }
+
+  public subscribe(callback: (settings: GradingSettings) => void): () => void {
+    this.listeners.push(callback);
+    callback(this.settings);
+    return () => { this.listeners = this.listeners.filter(l => l !== callback); };
+  }
+
+  public update(changes: Partial<GradingSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    this.listeners.forEach(l => l(this.settings));
+  }
+
+  // Minimum gap between grading requests, so a burst of submissions doesn't hit provider rate limits
+  public getRequestInterval(): number {
+    const provider = getGradingProvider(this.settings.provider);
+    if (!provider.rateLimited) return 0;
+    return Math.round(60000 / Math.max(1, this.settings.requestsPerMinute || defaultSettings.requestsPerMinute));
+  }
+
+  public getConfig(provider: GradingProvider): GradingConfig {
+    const envKey = provider.id === 'gemini' ? process.env.API_KEY : undefined;
+    return {
+      model: this.settings.models[provider.id]?.trim() || provider.defaultModel,
+      apiKey: this.settings.apiKeys[provider.id]?.trim() || envKey,
+      baseUrl: this.settings.baseUrl,
+    };
+  }
+}
+
+export const gradingSettings = new GradingSettingsService();
+
+/**
+ * Grades with the teacher's chosen provider. Never throws: a failure comes back with its reason,
+ * so it can't be mistaken for the AI awarding 0.
+ */
+export const evaluateAnswer = async (request: GradingRequest): Promise<GradingOutcome> => {
+  const provider = getGradingProvider(gradingSettings.getSettings().provider);
+  const config = gradingSettings.getConfig(provider);
+  if (provider.needsApiKey && !config.apiKey) {
+    return { status: 'failure', reason: 'missing_key', message: `No API key set for ${provider.label}.` };
+  }
+
+  try {
+    return { status: 'success', ...(await provider.evaluate(request, config)) };
+  } catch (error) {
+    console.error(`${provider.label} Error:`, error);
+    if (error instanceof GradingError) return { status: 'failure', reason: error.reason, message: error.message };
+    return { status: 'failure', reason: 'provider_error', message: (error as Error)?.message || 'AI evaluation failed.' };
+  }
+};
@@ -0,0 +1,70 @@
+import { ArchivedRound } from '../types';
+
+const DB_NAME = 'own_words_wiz_history';
+const DB_VERSION = 1;
+const ROUNDS = 'rounds';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const rounds = request.result.createObjectStore(ROUNDS, { keyPath: 'id' });
+        rounds.createIndex('className', 'className');
+        rounds.createIndex('archivedAt', 'archivedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Let a later call try again
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Settles with the transaction rather than the request: a write isn't safe until it has committed
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ROUNDS, mode);
+    const request = action(tx.objectStore(ROUNDS));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error('The history transaction was aborted'));
+  });
+};
+
+/**
+ * Every archived round, kept in IndexedDB on the teacher's device so the history outlives
+ * new classes and isn't squeezed into localStorage. Saving a round with an existing id replaces it.
+ */
+export const historyStore = {
+  saveRound: (round: ArchivedRound) => run('readwrite', store => store.put(round)).then(() => undefined),
+
+  deleteRound: (id: string) => run('readwrite', store => store.delete(id)).then(() => undefined),
+
+  // Newest first
+  listRounds: async (): Promise<ArchivedRound[]> => {
+    const rounds = await run<ArchivedRound[]>('readonly', store => store.getAll());
+    return rounds.sort((a, b) => b.archivedAt - a.archivedAt);
+  },
+};
+
+// Rounds grouped by class, then by the day they were taught. Expects rounds newest first, as listRounds gives them.
+export const groupHistory = (rounds: ArchivedRound[]): { className: string; days: { date: string; rounds: ArchivedRound[] }[] }[] => {
+  const classes = new Map<string, Map<string, ArchivedRound[]>>();
+  rounds.forEach(round => {
+    const className = round.className || 'Unnamed class';
+    const date = new Date(round.startedAt || round.archivedAt).toDateString();
+    if (!classes.has(className)) classes.set(className, new Map());
+    const days = classes.get(className)!;
+    days.set(date, [...(days.get(date) || []), round]);
+  });
+  return Array.from(classes, ([className, days]) => ({
+    className,
+    days: Array.from(days, ([date, dayRounds]) => ({ date, rounds: dayRounds })),
+  })).sort((a, b) => b.days[0].rounds[0].archivedAt - a.days[0].rounds[0].archivedAt);
+};
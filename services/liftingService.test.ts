@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { analyseLifting, extractKeyTerms } from './liftingService';
+
+const SOURCE = 'The old lighthouse keeper climbed the spiral staircase every evening to light the great lamp.';
+
+describe('analyseLifting', () => {
+  it('finds a phrase copied from the source', () => {
+    const answer = 'He climbed the spiral staircase each night.';
+    const { phrases, percentage } = analyseLifting(answer, SOURCE);
+    expect(phrases.map(p => p.text)).toEqual(['climbed the spiral staircase']);
+    // "climbed", "spiral" and "staircase" are lifted out of "climbed", "spiral", "staircase", "each", "night"
+    expect(percentage).toBe(60);
+  });
+
+  it('points each phrase at its place in the answer, matching its case and punctuation', () => {
+    const answer = 'Every night, he Climbed the Spiral staircase — then lit the great lamp.';
+    const { phrases } = analyseLifting(answer, SOURCE);
+    expect(phrases.map(p => p.text)).toEqual(['Climbed the Spiral staircase', 'the great lamp']);
+    phrases.forEach(p => expect(answer.slice(p.start, p.end)).toBe(p.text));
+  });
+
+  it('finds nothing in an answer written in other words', () => {
+    expect(analyseLifting('Each night a man went up the tower steps.', SOURCE)).toMatchObject({ percentage: 0, phrases: [] });
+  });
+
+  it('does not count runs of stop words alone', () => {
+    expect(analyseLifting('He went to the shops every day.', SOURCE).phrases).toEqual([]);
+  });
+
+  it('does not count the question\'s own key terms as lifted', () => {
+    const prompt = 'Explain what the writer suggests about the lighthouse keeper.';
+    expect(extractKeyTerms(prompt)).toEqual(['lighthouse', 'keeper']);
+    const answer = 'The lighthouse keeper was lonely.';
+    expect(analyseLifting(answer, SOURCE).phrases).toHaveLength(1);
+    expect(analyseLifting(answer, SOURCE, prompt)).toMatchObject({ percentage: 0, phrases: [] });
+  });
+});
@@ -0,0 +1,107 @@
+import { LiftingAnalysis, LiftedPhrase } from '../types';
+
+// Common function words. Sharing these with the source is not lifting.
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'for', 'from', 'had', 'has',
+  'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  "it's", 'its', 'just', 'me', 'more', 'most', 'my', 'no', 'not', 'of', 'on', 'only', 'or', 'other', 'our',
+  'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'up', 'very', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// Question words that never count as key terms of the topic
+const INSTRUCTION_WORDS = new Set([
+  'explain', 'identify', 'describe', 'summarise', 'summarize', 'show', 'using', 'words', 'word', 'writer',
+  'writers', "writer's", 'line', 'lines', 'paragraph', 'passage', 'marks', 'mark', 'points', 'two', 'three',
+  'look', 'means', 'mean', 'meant', 'suggest', 'suggests', 'give',
+]);
+
+// Shortest run of consecutive shared words that counts as a lifted phrase
+const DEFAULT_MIN_NGRAM = 2;
+
+// An answer with at least this share of lifted words is flagged as mostly copied
+export const LIFTED_FLAG_PERCENT = 50;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Token[] => {
+  const normalised = text.replace(/[‘’]/g, "'");
+  const tokens: Token[] = [];
+  for (const match of normalised.matchAll(/[a-z0-9]+(?:'[a-z0-9]+)*/gi)) {
+    tokens.push({ word: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+};
+
+// Content words from the question itself (e.g. the topic noun). Students cannot be expected to paraphrase these.
+export const extractKeyTerms = (prompt: string): string[] => {
+  const terms = tokenize(prompt)
+    .map(t => t.word)
+    .filter(w => !STOP_WORDS.has(w) && !INSTRUCTION_WORDS.has(w) && !/^\d+$/.test(w));
+  return Array.from(new Set(terms));
+};
+
+/**
+ * Compares an answer to the source wording and finds verbatim runs of shared words.
+ * Stop words and the question's key terms are never counted as lifted on their own,
+ * so "of the" or the topic noun from the question won't flag an answer.
+ * Deterministic and offline: no API key or network needed.
+ */
+export const analyseLifting = (
+  answer: string,
+  source: string,
+  prompt: string = '',
+  minNgram: number = DEFAULT_MIN_NGRAM
+): LiftingAnalysis => {
+  const answerTokens = tokenize(answer);
+  const sourceWords = tokenize(source).map(t => t.word);
+  const keyTerms = new Set(extractKeyTerms(prompt));
+  const isCountable = (word: string) => !STOP_WORDS.has(word) && !keyTerms.has(word);
+
+  // Index source positions by word so each answer token only scans matching starts
+  const positions = new Map<string, number[]>();
+  sourceWords.forEach((word, i) => {
+    const list = positions.get(word);
+    if (list) list.push(i);
+    else positions.set(word, [i]);
+  });
+
+  const phrases: LiftedPhrase[] = [];
+  const liftedTokens = new Set<number>();
+  let i = 0;
+  while (i < answerTokens.length) {
+    let longest = 0;
+    for (const p of positions.get(answerTokens[i].word) || []) {
+      let k = 0;
+      while (
+        i + k < answerTokens.length &&
+        p + k < sourceWords.length &&
+        answerTokens[i + k].word === sourceWords[p + k]
+      ) k++;
+      longest = Math.max(longest, k);
+    }
+
+    const run = answerTokens.slice(i, i + longest);
+    if (longest >= minNgram && run.some(t => isCountable(t.word))) {
+      const start = run[0].start;
+      const end = run[run.length - 1].end;
+      phrases.push({ text: answer.slice(start, end), start, end });
+      for (let k = i; k < i + longest; k++) liftedTokens.add(k);
+      i += longest;
+    } else {
+      i++;
+    }
+  }
+
+  const countable = answerTokens.map((t, idx) => ({ idx, word: t.word })).filter(t => isCountable(t.word));
+  const liftedCount = countable.filter(t => liftedTokens.has(t.idx)).length;
+  const percentage = countable.length ? Math.round((liftedCount / countable.length) * 100) : 0;
+
+  return { percentage, phrases, analysedAt: Date.now() };
+};
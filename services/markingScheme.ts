@@ -0,0 +1,17 @@
+import { MarkingPoint } from '../types';
+
+export { scoreFromPoints } from '../shared/roomRules';
+
+export const createMarkingPoint = (text: string = '', marks: number = 1): MarkingPoint => ({
+  id: 'pt-' + Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+  text,
+  marks,
+});
+
+// Drops blank rows and keeps marks to whole numbers of at least 1
+export const cleanMarkingScheme = (points: MarkingPoint[]): MarkingPoint[] | undefined => {
+  const cleaned = points
+    .filter(p => p.text.trim())
+    .map(p => ({ ...p, text: p.text.trim(), marks: Math.max(1, Math.round(p.marks) || 1) }));
+  return cleaned.length ? cleaned : undefined;
+};
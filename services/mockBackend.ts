@@ -1,12 +1,47 @@
-import { GameState, StudentResponse, NetworkMessage, LogEntry } from '../types';
+import { GameState, StudentResponse, ComparisonAnnotation, RevealStep, PeerVerdict, NetworkMessage, LogEntry, SourcePassage, SavedQuestion, Lesson, ArchivedRound, MarkingPoint, ClassMember, StudentSession, SavedStudentSession, StudentPresence, GradingFailureReason, AnswerRejectionReason } from '../types';
 import { Peer, DataConnection } from 'peerjs';
 import { io, Socket } from 'socket.io-client';
+import { analyseLifting } from './liftingService';
+import { getPassageExtract } from './passageService';
+import { scoreFromPoints } from './markingScheme';
+import { GradingResult } from './aiGrading';
+import { scopeStateForStudent, scopeStateForProjector } from './stateScope';
+import { answerRejection, buildResponse, applyPeerVote, applyPeerReview, admitAs, applyClaimName } from '../shared/roomRules';
+import { historyStore } from './historyStore';
+import { classLists, linkSessionsByName, sortedMembers } from './classLists';
+import { roundLogins } from './studentProgress';
+import { assignPeerReviews, isPeerReviewOpen } from './peerReview';
+import { createStudentSession, findSessionByToken, loadSavedSession, saveSession, clearSavedSession } from './studentIdentity';
+import { PRESENCE_TIMEOUT_MS } from './roster';
+import { createTimer, pauseTimer, resumeTimer, extendTimer, getRemainingMs, LATE_GRACE_MS } from './roundTimer';
 
 const STORAGE_KEY = 'own_words_wiz_state';
+// Rounds archived before the history moved to IndexedDB; imported once, then removed
+const LEGACY_ARCHIVE_KEY = 'own_words_wiz_archive';
+// Projector-scoped copy of the state for the pop-out projector window
+const PROJECTOR_KEY = 'own_words_wiz_projector';
+// Server mode: the secret that proves this device created the room, and the teacher login token
+const HOST_KEY = 'own_words_wiz_host';
+const AUTH_KEY = 'own_words_wiz_teacher_token';
 const APP_PREFIX = 'oww-v1-';
 // Fix: Cast import.meta to any to resolve TS error
 const USE_WEBSOCKET = (import.meta as any).env?.VITE_USE_WEBSOCKET === 'true';
 
+// Log lines for answers the room rules refuse; an unchanged resubmission is dropped quietly
+const REJECTED_ANSWER_LOGS: Record<Exclude<AnswerRejectionReason, 'unchanged'>, (name: string) => string> = {
+  invalid: name => `Ignored an answer from ${name}: it was empty or too long.`,
+  not_admitted: name => `Ignored an answer from "${name}": they haven't been let in yet.`,
+  closed: name => `Rejected an answer from ${name}: submissions are closed.`,
+  peer_review: name => `Rejected an answer from ${name}: peer review is under way.`,
+  late: name => `Rejected a late answer from ${name}.`,
+  no_resubmission: name => `Ignored a resubmission from ${name}: resubmitting is turned off.`,
+};
+
+// How often a student device reports it is still there
+const PRESENCE_INTERVAL_MS = 5000;
+// Typing indicator clears after this long without a keystroke
+const TYPING_IDLE_MS = 3000;
+
 // Simplified STUN list.
 const ICE_SERVERS = [
   { urls: 'stun:stun.l.google.com:19302' },
@@ -24,6 +59,32 @@ const initialState: GameState = {
 
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+// Answers a projected comparison can hold; more than four are unreadable from the back of the room
+export const MIN_COMPARED_ANSWERS = 2;
+export const MAX_COMPARED_ANSWERS = 4;
+
+// Outcome of joining a room as host on the server
+type HostJoinResult = 'ok' | 'not_found' | 'forbidden' | 'login_required';
+
+// Optional extras that travel with a posted prompt
+export interface PromptDetails {
+  passage?: SourcePassage;
+  markingNotes?: string;
+  markingScheme?: MarkingPoint[];
+  modelAnswer?: string;
+  allowResubmission?: boolean;
+  timeLimitSeconds?: number;
+}
+
+const newSessionId = () => 'session-' + Date.now().toString(36);
+
+// A student device connected to the host, over either transport
+interface ConnectedClient {
+  id: string; // PeerJS peer id or Socket.io socket id
+  studentId?: string; // Known once the student's JOIN_REQUEST is accepted
+  send: (msg: NetworkMessage) => void;
+}
+
 /**
  * GameService handles the game logic and networking.
  * It now supports two transport modes: P2P (PeerJS) and Server (Socket.io)
@@ -31,29 +92,53 @@ export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'er
 class GameService {
   private state: GameState;
   private listeners: ((state: GameState) => void)[] = [];
+  private projectorListeners: ((state: GameState) => void)[] = [];
+  private projectorState: GameState;
   private logListeners: ((logs: LogEntry[]) => void)[] = [];
+  // Finished rounds from every class, newest first. They stay on the teacher's device and are never broadcast.
+  private archive: ArchivedRound[] = [];
+  private archiveListeners: ((rounds: ArchivedRound[]) => void)[] = [];
   
   // P2P (PeerJS) Variables
   private peer: Peer | null = null;
   private connections: DataConnection[] = [];
+
+  // Host only: every student device, so each gets its own scoped state
+  private clients = new Map<string, ConnectedClient>();
+  private presence: Record<string, StudentPresence> = {};
+  private presenceListeners: ((presence: Record<string, StudentPresence>) => void)[] = [];
+  private presenceSweepInterval: any = null;
+
+  // Student only: identity issued by the host, and the join waiting for it
+  private session: SavedStudentSession | null = null;
+  private joinedRoomCode = '';
+  private studentHeartbeatInterval: any = null;
+  private isTyping = false;
+  private typingTimeout: any = null;
+  private pendingJoin: { resolve: (session: SavedStudentSession) => void; reject: (err: Error) => void; timer: any } | null = null;
   
   // Server (Socket.io) Variables
   private socket: Socket | null = null;
   
   private isHost: boolean = false;
   public connectionStatus: ConnectionStatus = 'disconnected';
+  public needsLogin: boolean = false; // Server mode: the server wants a teacher login before hosting
   private logs: LogEntry[] = [];
   private heartbeatInterval: any = null;
 
   constructor() {
     const saved = localStorage.getItem(STORAGE_KEY);
     this.state = saved ? JSON.parse(saved) : initialState;
+    this.loadHistory();
+    classLists.subscribe(() => this.syncClassList());
+    const savedProjector = localStorage.getItem(PROJECTOR_KEY);
+    this.projectorState = savedProjector ? JSON.parse(savedProjector) : scopeStateForProjector(initialState);
 
-    // Legacy tab sync
+    // Pop-out projector tab sync (projector scope only)
     window.addEventListener('storage', (e) => {
-      if (e.key === STORAGE_KEY && e.newValue) {
+      if (e.key === PROJECTOR_KEY && e.newValue) {
         if (!this.isHost) {
-           this.state = JSON.parse(e.newValue);
+           this.projectorState = JSON.parse(e.newValue);
            this.notifyListeners();
         }
       }
@@ -85,40 +170,304 @@ class GameService {
 
   // --- State Management ---
   public getState(): GameState { return this.state; }
+  public isServerMode(): boolean { return USE_WEBSOCKET; }
   public subscribe(callback: (state: GameState) => void): () => void {
     this.listeners.push(callback);
     callback(this.state);
     return () => { this.listeners = this.listeners.filter((l) => l !== callback); };
   }
 
+  // The projector only ever sees projector-scoped state, whether in this tab or popped out
+  public getProjectorState(): GameState {
+    return this.isHost ? scopeStateForProjector(this.state) : this.projectorState;
+  }
+  public subscribeProjector(callback: (state: GameState) => void): () => void {
+    this.projectorListeners.push(callback);
+    callback(this.getProjectorState());
+    return () => { this.projectorListeners = this.projectorListeners.filter((l) => l !== callback); };
+  }
+
+  // --- Round Archive ---
+  public getArchivedRounds(): ArchivedRound[] { return this.archive; }
+  public subscribeArchive(callback: (rounds: ArchivedRound[]) => void): () => void {
+    this.archiveListeners.push(callback);
+    callback([...this.archive]);
+    return () => { this.archiveListeners = this.archiveListeners.filter(l => l !== callback); };
+  }
+
+  private notifyArchive() {
+    this.archiveListeners.forEach(l => l([...this.archive]));
+  }
+
+  private async loadHistory() {
+    try {
+      const legacy = localStorage.getItem(LEGACY_ARCHIVE_KEY);
+      if (legacy) {
+        const rounds: ArchivedRound[] = JSON.parse(legacy);
+        // Each save settles once it has committed, so the old copy is only dropped when every round is stored
+        for (const round of rounds) await historyStore.saveRound(round);
+        localStorage.removeItem(LEGACY_ARCHIVE_KEY);
+        this.addLog('info', `Moved ${rounds.length} past rounds into the session history.`);
+      }
+      const stored = await historyStore.listRounds();
+      // Keep anything archived while the history was loading
+      const pending = this.archive.filter(r => !stored.some(s => s.id === r.id));
+      this.archive = [...pending, ...stored];
+      this.notifyArchive();
+    } catch (e: any) {
+      this.addLog('error', `Could not open the session history: ${e?.message || e}`);
+    }
+  }
+
+  private archiveCurrentRound() {
+    if (Object.keys(this.state.students).length === 0) return;
+    const round: ArchivedRound = {
+      id: this.state.roundId || 'round-' + Date.now(),
+      prompt: this.state.prompt,
+      maxScore: this.state.maxScore,
+      passage: this.state.passage,
+      markingNotes: this.state.markingNotes,
+      markingScheme: this.state.markingScheme,
+      modelAnswer: this.state.modelAnswer,
+      questionId: this.state.lesson?.questionIds[this.state.lesson.index],
+      lessonId: this.state.lesson?.id,
+      className: this.state.className,
+      roomCode: this.state.roomCode,
+      sessionId: this.state.sessionId,
+      students: this.state.students,
+      sessions: this.state.sessions,
+      startedAt: this.state.roundStartedAt,
+      archivedAt: Date.now(),
+    };
+    this.archive = [round, ...this.archive.filter(r => r.id !== round.id)];
+    this.notifyArchive();
+    historyStore.saveRound(round).catch((e: any) => this.addLog('error', `Could not save the round to the history: ${e?.message || e}`));
+    this.addLog('info', `Archived round with ${Object.keys(round.students).length} responses.`);
+  }
+
+  public deleteArchivedRound(id: string) {
+    this.archive = this.archive.filter(r => r.id !== id);
+    this.notifyArchive();
+    historyStore.deleteRound(id).catch((e: any) => this.addLog('error', `Could not delete the round: ${e?.message || e}`));
+  }
+
+  /**
+   * Brings a past round back as the current one, with its answers and marks, so marking
+   * or discussion can carry on. Submissions stay closed until the teacher reopens them.
+   * The round's student identities come back too, so its answers stay linked to their authors.
+   */
+  public resumeArchivedRound(round: ArchivedRound) {
+    this.archiveCurrentRound();
+    this.addLog('info', `Resuming a round from ${new Date(round.archivedAt).toLocaleString()}.`);
+    this.state = {
+      ...this.state,
+      prompt: round.prompt,
+      maxScore: round.maxScore,
+      passage: round.passage,
+      markingNotes: round.markingNotes,
+      markingScheme: round.markingScheme,
+      modelAnswer: round.modelAnswer,
+      lesson: undefined,
+      className: round.className ?? this.state.className,
+      sessions: { ...round.sessions, ...this.state.sessions },
+      students: round.students,
+      ...this.newRoundFields(),
+      roundId: round.id,
+      isAcceptingAnswers: false,
+      allowResubmission: true,
+    };
+    this.persist();
+    this.broadcastResetForm();
+  }
+
+  public setClassName(className: string) {
+    // Students who joined before the class was named can now be matched to its list
+    this.state = this.withClassList({ ...this.state, className: className.trim() || undefined });
+    this.persist();
+  }
+
+  // The class list travels with the room state, so the server can match joining students while the teacher is away
+  private withClassList(state: GameState): GameState {
+    const members = sortedMembers(classLists.getList(state.className));
+    // Candidate numbers stay on this device: matching only uses names
+    const classMembers = members.map(({ id, name, addedAt }) => ({ id, name, addedAt }));
+    return { ...state, classMembers: classMembers.length ? classMembers : undefined, sessions: state.sessions && linkSessionsByName(state.sessions, members) };
+  }
+
+  // Picks up edits to the class list, and lets in anyone waiting whose name was just added
+  private syncClassList() {
+    const next = this.withClassList(this.state);
+    if (next.sessions === this.state.sessions && JSON.stringify(next.classMembers) === JSON.stringify(this.state.classMembers)) return;
+    this.state = next;
+    this.persist();
+  }
+
+  /**
+   * Links logins to an entry on the class list, or unlinks them when memberId is left out.
+   * The change is made in this round and in every archived round the logins appear in,
+   * so their earlier answers count towards the pupil's progress.
+   */
+  public linkStudentsToMember(studentIds: string[], memberId?: string) {
+    const current = this.state.sessions || {};
+    if (studentIds.some(id => current[id])) {
+      const sessions = { ...current };
+      studentIds.forEach(id => { if (sessions[id]) sessions[id] = { ...sessions[id], memberId }; });
+      this.state = { ...this.state, sessions };
+      this.persist();
+    }
+    this.updateArchivedLogins(round => {
+      const logins = roundLogins(round).filter(s => studentIds.includes(s.studentId));
+      if (logins.length === 0) return round;
+      const sessions = { ...round.sessions };
+      logins.forEach(s => { sessions[s.studentId] = { ...s, memberId }; });
+      return { ...round, sessions };
+    });
+  }
+
+  // Links every unlinked login in the class, past and present, whose name is on its list
+  public linkClassListByName(className: string) {
+    const list = sortedMembers(classLists.getList(className));
+    if (list.length === 0) return;
+    if (this.state.className === className && this.state.sessions) {
+      const sessions = linkSessionsByName(this.state.sessions, list);
+      if (sessions !== this.state.sessions) {
+        this.state = { ...this.state, sessions };
+        this.persist();
+      }
+    }
+    this.updateArchivedLogins(round => {
+      if (round.className !== className) return round;
+      const logins: Record<string, StudentSession> = {};
+      roundLogins(round).forEach(s => { logins[s.studentId] = s; });
+      const sessions = linkSessionsByName(logins, list);
+      return (Object.keys(sessions) as string[]).some(id => sessions[id] !== logins[id]) ? { ...round, sessions } : round;
+    });
+  }
+
+  // Applies a change to archived rounds' logins and saves whichever rounds it touched
+  private updateArchivedLogins(update: (round: ArchivedRound) => ArchivedRound) {
+    const changed: ArchivedRound[] = [];
+    this.archive = this.archive.map(round => {
+      const updated = update(round);
+      if (updated !== round) changed.push(updated);
+      return updated;
+    });
+    if (changed.length === 0) return;
+    this.notifyArchive();
+    changed.forEach(round => historyStore.saveRound(round).catch((e: any) => this.addLog('error', `Could not update the history: ${e?.message || e}`)));
+    this.addLog('info', `Updated student links in ${changed.length} past round${changed.length === 1 ? '' : 's'}.`);
+  }
+
   private persist() {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    this.saveLocally();
     if (this.isHost) {
-      this.broadcast({ type: 'SYNC_STATE', payload: this.state });
+      this.publishState();
+      this.scheduleAutoClose();
     }
     this.notifyListeners();
   }
 
+  private saveLocally() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    if (this.isHost) {
+      localStorage.setItem(PROJECTOR_KEY, JSON.stringify(scopeStateForProjector(this.state)));
+    }
+  }
+
+  private publishState() {
+    if (USE_WEBSOCKET) {
+      // The server stores the state and sends each student their scoped copy
+      if (this.socket?.connected && this.state.roomCode) {
+        this.socket.emit('host_state', { roomCode: this.state.roomCode, state: this.state });
+      }
+    } else {
+      this.clients.forEach(client => this.syncClient(client));
+    }
+  }
+
+  // Server mode: the server's copy includes answers and joins that arrived while we were away
+  private adoptRoomState(roomState: GameState) {
+    const { state, changed } = this.withLiftingAnalysis(roomState);
+    // New answers and revisions the server accepted
+    const newAnswerIds = Object.keys(state.students).filter(id => this.state.students[id]?.text !== state.students[id].text);
+    this.state = state;
+    if (changed) {
+      this.persist(); // Send the analysis back so the server copy has it too
+    } else {
+      this.saveLocally();
+      this.notifyListeners();
+    }
+    this.notifyNewAnswers(newAnswerIds);
+    this.scheduleAutoClose();
+  }
+
   private notifyListeners() {
     const stateCopy = { ...this.state };
     this.listeners.forEach((l) => l(stateCopy));
+    const projectorState = this.getProjectorState();
+    this.projectorListeners.forEach((l) => l(projectorState));
   }
 
-  // Unified Broadcast
+  // Each student gets the prompt and their own submission only
+  private syncClient(client: ConnectedClient) {
+    client.send({ type: 'SYNC_STATE', scope: 'student', payload: scopeStateForStudent(this.state, client.studentId) });
+  }
+
+  // Unified Broadcast. Only for messages that are safe for every student to see.
   private broadcast(msg: NetworkMessage) {
     if (USE_WEBSOCKET) {
-        // Socket.io Broadcast
         if (this.socket && this.state.roomCode) {
             this.socket.emit('message', { roomCode: this.state.roomCode, message: msg });
         }
     } else {
-        // PeerJS Broadcast
-        this.connections.forEach(conn => {
-            if (conn.open) conn.send(msg);
-        });
+        this.clients.forEach(client => client.send(msg));
     }
   }
 
+  private registerClient(client: ConnectedClient) {
+    this.clients.set(client.id, client);
+  }
+
+  private unregisterClient(id: string) {
+    const client = this.clients.get(id);
+    this.clients.delete(id);
+    // Only mark offline if the student has no other open connection (e.g. a rejoin that raced the close)
+    const studentId = client?.studentId;
+    if (studentId && ![...this.clients.values()].some(c => c.studentId === studentId)) {
+      this.updatePresence(studentId, { connected: false, typing: false });
+    }
+  }
+
+  // --- Presence (host) ---
+  public getPresence(): Record<string, StudentPresence> { return this.presence; }
+  public subscribePresence(callback: (presence: Record<string, StudentPresence>) => void): () => void {
+    this.presenceListeners.push(callback);
+    callback({ ...this.presence });
+    return () => { this.presenceListeners = this.presenceListeners.filter(l => l !== callback); };
+  }
+
+  private updatePresence(studentId: string, changes: Partial<StudentPresence>) {
+    const current = this.presence[studentId] || { studentId, connected: true, typing: false, lastSeen: Date.now() };
+    this.presence = { ...this.presence, [studentId]: { ...current, ...changes } };
+    const snapshot = { ...this.presence };
+    this.presenceListeners.forEach(l => l(snapshot));
+  }
+
+  // Catches devices that vanished without a clean close (sleeping iPads, lost Wi-Fi)
+  private startPresenceSweep() {
+    this.stopPresenceSweep();
+    this.presenceSweepInterval = setInterval(() => {
+      const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+      (Object.values(this.presence) as StudentPresence[]).forEach(p => {
+        if (p.connected && p.lastSeen < cutoff) this.updatePresence(p.studentId, { connected: false, typing: false });
+      });
+    }, PRESENCE_INTERVAL_MS);
+  }
+
+  private stopPresenceSweep() {
+    if (this.presenceSweepInterval) clearInterval(this.presenceSweepInterval);
+  }
+
   // --- Networking: Start Host ---
 
   public async startNewClass(): Promise<string> {
@@ -128,11 +477,15 @@ class GameService {
     // Cleanup P2P
     if (this.peer) { this.peer.destroy(); this.peer = null; }
     this.connections = [];
+    this.clients.clear();
+    this.presence = {};
     
     // Cleanup Socket
     if (this.socket) { this.socket.disconnect(); this.socket = null; }
     
-    this.state = { ...initialState, roomCode: undefined };
+    this.archiveCurrentRound();
+    // Everything else is in the history now. The class name is kept as the teacher often has the same class again.
+    this.state = { ...initialState, roomCode: undefined, className: this.state.className, classMembers: this.state.classMembers, sessionId: newSessionId() };
     this.persist();
 
     return this.startHosting();
@@ -160,34 +513,122 @@ class GameService {
     this.addLog('info', 'Initializing Host...');
     
     const code = this.state.roomCode || Math.random().toString(36).substring(2, 6).toUpperCase();
-    this.state = { ...this.state, roomCode: code };
+    this.state = { ...this.state, roomCode: code, sessionId: this.state.sessionId || newSessionId() };
     this.persist();
+    this.startPresenceSweep();
 
     if (USE_WEBSOCKET) {
-        return this.startHostingSocket(code);
+        const result = await this.startHostingSocket(code);
+        if (result === 'forbidden') {
+          // Someone else holds this code (or our secret was lost): start over with a fresh one
+          this.addLog('error', `Room ${code} belongs to another host. Creating a new room.`);
+          if (this.socket) { this.socket.disconnect(); this.socket = null; }
+          this.state = { ...this.state, roomCode: undefined, students: {}, sessions: {} };
+          return this.startHosting();
+        }
+        return code;
     } else {
         return this.startHostingP2P(code);
     }
   }
 
+  // Server mode only: take over a room that is still running on the server, e.g. from another device.
+  // The host key shown on the original device is needed.
+  public async resumeRoom(code: string, hostKey: string): Promise<boolean> {
+    if (!USE_WEBSOCKET) return false;
+    this.addLog('info', `Resuming room ${code}...`);
+    const previous = this.state;
+    const previousHost = this.loadHostSecret();
+    if (this.socket) { this.socket.disconnect(); this.socket = null; }
+    this.presence = {};
+    this.isHost = true;
+    this.connectionStatus = 'connecting';
+    this.saveHostSecret(code, hostKey.trim());
+
+    const result = await this.startHostingSocket(code, true);
+    if (result === 'ok') {
+      this.addLog('success', `Resumed room ${code}.`);
+      return true;
+    }
+    this.addLog('error', result === 'forbidden' ? `Wrong host key for room ${code}.` : `Room ${code} was not found on the server.`);
+    if (this.socket) { this.socket.disconnect(); this.socket = null; }
+    if (previousHost) this.saveHostSecret(previousHost.roomCode, previousHost.hostSecret);
+    this.state = previous;
+    await this.startHosting();
+    return false;
+  }
+
+  // --- Server mode credentials ---
+  private loadHostSecret(): { roomCode: string; hostSecret: string } | null {
+    const saved = localStorage.getItem(HOST_KEY);
+    return saved ? JSON.parse(saved) : null;
+  }
+
+  private saveHostSecret(roomCode: string, hostSecret: string) {
+    localStorage.setItem(HOST_KEY, JSON.stringify({ roomCode, hostSecret }));
+  }
+
+  // Shown to the teacher so they can resume the room from another device
+  public getHostKey(): string {
+    const saved = this.loadHostSecret();
+    return saved && saved.roomCode === this.state.roomCode ? saved.hostSecret : '';
+  }
+
+  public async login(username: string, password: string): Promise<boolean> {
+    const res = await fetch('/api/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    if (!res.ok) return false;
+    const { token } = await res.json();
+    localStorage.setItem(AUTH_KEY, token);
+    this.needsLogin = false;
+    this.addLog('success', 'Teacher login accepted.');
+    return true;
+  }
+
   // --------------------------------------------------------------------------
   // SOCKET.IO IMPLEMENTATION (Docker/NAS)
   // --------------------------------------------------------------------------
 
-  private async startHostingSocket(code: string): Promise<string> {
+  private async startHostingSocket(code: string, resume: boolean = false): Promise<HostJoinResult> {
       return new Promise((resolve) => {
+          if (this.socket) this.socket.disconnect();
           this.socket = io(); // Connects to relative path (server.js)
+          let firstConnect = true;
           
+          // Also fires after a reconnect (e.g. the laptop woke from sleep), which resumes the room
           this.socket.on('connect', () => {
               this.addLog('success', `Host Connected via Server. Room: ${code}`);
-              this.connectionStatus = 'connected';
-              this.socket?.emit('join_room', code);
-              resolve(code);
+              // Resuming sends no state, so the server's copy is taken as-is. Otherwise ours is merged into it.
+              const state = resume && firstConnect ? null : this.state;
+              firstConnect = false;
+              const saved = this.loadHostSecret();
+              const hostSecret = saved?.roomCode === code ? saved.hostSecret : undefined;
+              const authToken = localStorage.getItem(AUTH_KEY) || undefined;
+
+              this.socket?.emit('host_join', { roomCode: code, state, hostSecret, authToken }, (res: { state?: GameState; hostSecret?: string; error?: HostJoinResult }) => {
+                  if (res.error || !res.state || !res.hostSecret) {
+                      this.connectionStatus = 'error';
+                      if (res.error === 'login_required') {
+                          this.needsLogin = true;
+                          this.addLog('error', 'The server requires a teacher login.');
+                      }
+                      resolve(res.error || 'not_found');
+                      return;
+                  }
+                  this.saveHostSecret(code, res.hostSecret);
+                  this.adoptRoomState(res.state);
+                  this.connectionStatus = 'connected';
+                  resolve('ok');
+              });
           });
 
-          this.socket.on('message', (data: any) => {
-              // As host, we receive answers
-              this.handleMessage(data);
+          this.socket.on('room_state', (roomState: GameState) => this.adoptRoomState(roomState));
+
+          this.socket.on('presence', (update: StudentPresence) => {
+              this.updatePresence(update.studentId, update);
           });
 
           this.socket.on('disconnect', () => {
@@ -197,10 +638,12 @@ class GameService {
       });
   }
 
-  private async joinGameSocket(code: string, studentName: string): Promise<boolean> {
+  private async joinGameSocket(code: string, studentName: string, token?: string): Promise<void> {
       return new Promise((resolve, reject) => {
+          if (this.socket) this.socket.disconnect();
           this.socket = io();
           
+          // Also fires after an automatic reconnect, so the same identity is reclaimed
           this.socket.on('connect', () => {
               this.addLog('success', 'Connected to Server');
               this.socket?.emit('join_room', code);
@@ -208,22 +651,12 @@ class GameService {
               // Send join request
               this.socket?.emit('message', { 
                   roomCode: code, 
-                  message: { type: 'JOIN_REQUEST', payload: { name: studentName } } 
+                  message: { type: 'JOIN_REQUEST', payload: { name: studentName, token: this.session?.token ?? token } } 
               });
-              
-              // Wait a moment then resolve, as we don't get a direct ack from host in this simple version
-              setTimeout(() => resolve(true), 500);
+              resolve();
           });
 
-          this.socket.on('message', (msg: NetworkMessage) => {
-              if (msg.type === 'SYNC_STATE') {
-                this.state = msg.payload;
-                this.notifyListeners();
-              }
-              if (msg.type === 'RESET_FORM') {
-                  this.notifyReset();
-              }
-          });
+          this.socket.on('message', (msg: NetworkMessage) => this.handleStudentMessage(msg));
           
           this.socket.on('connect_error', () => {
              reject(new Error("Server connection failed"));
@@ -264,14 +697,13 @@ class GameService {
           this.addLog('info', `Student connecting...`);
           conn.on('open', () => {
              this.addLog('success', `Student joined!`);
-             this.connections.push(conn);
-             setTimeout(() => {
-                 conn.send({ type: 'SYNC_STATE', payload: this.state });
-             }, 100);
+             const client: ConnectedClient = { id: conn.peer, send: (msg) => { if (conn.open) conn.send(msg); } };
+             this.registerClient(client);
+             setTimeout(() => this.syncClient(client), 100);
           });
-          conn.on('data', (data: any) => this.handleMessage(data));
+          conn.on('data', (data: any) => this.handleMessage(data, conn.peer));
           conn.on('close', () => {
-             this.connections = this.connections.filter(c => c !== conn);
+             this.unregisterClient(conn.peer);
           });
         });
 
@@ -298,7 +730,7 @@ class GameService {
     });
   }
 
-  private async joinGameP2P(code: string, studentName: string): Promise<boolean> {
+  private async joinGameP2P(code: string, studentName: string, token?: string): Promise<void> {
     const fullId = APP_PREFIX + code.toUpperCase();
     return new Promise((resolve, reject) => {
       try {
@@ -313,18 +745,11 @@ class GameService {
               this.addLog('success', 'Connected to Teacher!');
               this.peer = peer;
               this.connections = [conn];
-              conn.send({ type: 'JOIN_REQUEST', payload: { name: studentName } });
-              resolve(true);
+              conn.send({ type: 'JOIN_REQUEST', payload: { name: studentName, token } });
+              resolve();
             });
 
-            conn.on('data', (data: any) => {
-              const msg = data as NetworkMessage;
-              if (msg.type === 'SYNC_STATE') {
-                this.state = msg.payload;
-                this.notifyListeners();
-              }
-              if (msg.type === 'RESET_FORM') this.notifyReset();
-            });
+            conn.on('data', (data: any) => this.handleStudentMessage(data as NetworkMessage));
 
             setTimeout(() => {
               if (!conn.open) reject(new Error("Connection timed out."));
@@ -342,44 +767,272 @@ class GameService {
 
   // --- Common Logic ---
 
-  public async joinGame(code: string, studentName: string): Promise<boolean> {
+  // Resolves once the host has accepted the join and issued (or restored) this device's identity
+  public async joinGame(code: string, studentName: string): Promise<SavedStudentSession> {
     this.isHost = false;
     this.addLog('info', `Joining room: ${code}`);
 
-    if (USE_WEBSOCKET) {
-        return this.joinGameSocket(code, studentName);
-    } else {
-        return this.joinGameP2P(code, studentName);
+    // Reclaim the previous identity when rejoining the same room
+    const saved = loadSavedSession();
+    const token = saved && saved.roomCode === code ? saved.token : undefined;
+    this.session = null;
+    this.joinedRoomCode = code;
+
+    const accepted = new Promise<SavedStudentSession>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            this.pendingJoin = null;
+            reject(new Error("Teacher did not respond."));
+        }, 10000);
+        this.pendingJoin = { resolve, reject, timer };
+    });
+
+    try {
+        if (USE_WEBSOCKET) {
+            await this.joinGameSocket(code, studentName, token);
+        } else {
+            await this.joinGameP2P(code, studentName, token);
+        }
+    } catch (e) {
+        if (this.pendingJoin) clearTimeout(this.pendingJoin.timer);
+        this.pendingJoin = null;
+        throw e;
     }
+    return accepted;
   }
 
-  private handleMessage(msg: NetworkMessage) {
+  public getStudentSession(): SavedStudentSession | null { return this.session; }
+  public getSavedStudentSession(): SavedStudentSession | null { return loadSavedSession(); }
+
+  // Forget this device's identity, e.g. a shared iPad handed to the next pupil
+  public leaveGame() {
+    clearSavedSession();
+    this.session = null;
+    this.stopStudentHeartbeat();
+    if (this.socket) { this.socket.disconnect(); this.socket = null; }
+    if (this.peer) { this.peer.destroy(); this.peer = null; }
+    this.connections = [];
+    this.state = initialState;
+    this.notifyListeners();
+  }
+
+  private handleStudentMessage(msg: NetworkMessage) {
+    if (msg.type === 'SYNC_STATE') {
+      this.state = msg.payload;
+      this.notifyListeners();
+    }
+    if (msg.type === 'RESET_FORM') this.notifyReset();
+    if (msg.type === 'ANSWER_REJECTED') this.answerRejectedListeners.forEach(l => l(msg.payload.reason));
+    if (msg.type === 'JOIN_ACCEPTED') {
+      this.session = { roomCode: this.joinedRoomCode, ...msg.payload };
+      saveSession(this.session);
+      this.addLog('success', `Joined as ${msg.payload.name}`);
+      this.startStudentHeartbeat();
+      if (this.pendingJoin) {
+        clearTimeout(this.pendingJoin.timer);
+        this.pendingJoin.resolve(this.session);
+        this.pendingJoin = null;
+      }
+    }
+  }
+
+  private handleMessage(msg: NetworkMessage, clientId: string) {
     if (!this.isHost) return;
+    const client = this.clients.get(clientId);
+    if (msg.type === 'JOIN_REQUEST') {
+      const session = this.acceptStudent(msg.payload.name, msg.payload.token);
+      if (!session) return;
+      if (client) {
+        client.studentId = session.studentId;
+        client.send({ type: 'JOIN_ACCEPTED', payload: { studentId: session.studentId, token: session.token, name: session.name } });
+        this.syncClient(client);
+      }
+      this.updatePresence(session.studentId, { connected: true, typing: false, lastSeen: Date.now() });
+    }
+    if (msg.type === 'PRESENCE') {
+      const session = findSessionByToken(this.state.sessions, msg.payload.token);
+      if (!session) return;
+      if (client) client.studentId = session.studentId;
+      this.updatePresence(session.studentId, { connected: true, typing: msg.payload.typing, lastSeen: Date.now() });
+    }
     if (msg.type === 'SUBMIT_ANSWER') {
-      const { name, text } = msg.payload;
-      this.addAnswerInternal(name, text);
+      // The token, not a name the device claims, decides whose answer this is
+      const session = findSessionByToken(this.state.sessions, msg.payload.token);
+      if (!session) {
+        this.addLog('error', 'Ignored answer from a device that has not joined.');
+        return;
+      }
+      if (client) client.studentId = session.studentId;
+      this.updatePresence(session.studentId, { connected: true, typing: false, lastSeen: Date.now() });
+      const rejection = this.addAnswerInternal(session.studentId, msg.payload.text);
+      // An unchanged resubmission is already stored, so the student's synced state shows it
+      if (client && rejection && rejection !== 'unchanged') client.send({ type: 'ANSWER_REJECTED', payload: { reason: rejection } });
+    }
+    if (msg.type === 'PEER_VOTE') {
+      const session = findSessionByToken(this.state.sessions, msg.payload.token);
+      if (!session || session.approval) return;
+      if (client) client.studentId = session.studentId;
+      this.addPeerVoteInternal(session.studentId, msg.payload.responseId, msg.payload.verdict, msg.payload.score);
+    }
+    if (msg.type === 'PEER_REVIEW') {
+      const session = findSessionByToken(this.state.sessions, msg.payload.token);
+      if (!session || session.approval) return;
+      if (client) client.studentId = session.studentId;
+      const { responseId, score, matchedPoints, comment } = msg.payload;
+      this.addPeerReviewInternal(session.studentId, responseId, score, matchedPoints, comment);
+    }
+    if (msg.type === 'CLAIM_NAME') {
+      const session = findSessionByToken(this.state.sessions, msg.payload.token);
+      if (!session) return;
+      if (client) client.studentId = session.studentId;
+      this.claimNameInternal(session.studentId, msg.payload.memberId);
     }
   }
 
-  // Called by Student View
-  public sendAnswer(studentName: string, text: string) {
-    if (this.isHost) {
-       this.addAnswerInternal(studentName, text);
+  // Only answers assigned to this reviewer count; marking one again replaces the earlier review
+  private addPeerReviewInternal(studentId: string, responseId: string, score: number, matchedPoints: string[] | undefined, comment: string) {
+    const session = this.state.sessions?.[studentId];
+    const reviewed = session && applyPeerReview(this.state, session, { responseId, score, matchedPoints, comment });
+    if (!reviewed) return;
+    this.state = { ...this.state, students: { ...this.state.students, [reviewed.id]: reviewed } };
+    this.persist();
+  }
+
+  // A later vote from the same student replaces their earlier one
+  private addPeerVoteInternal(studentId: string, responseId: string, verdict: PeerVerdict, score: number) {
+    const session = this.state.sessions?.[studentId];
+    const voted = session && applyPeerVote(this.state, session, { responseId, verdict, score });
+    if (!voted) return;
+    this.state = { ...this.state, students: { ...this.state.students, [voted.id]: voted } };
+    this.persist();
+  }
+
+  // Restores the identity behind a known token, or issues a new one
+  private acceptStudent(name: string, token?: string): StudentSession | undefined {
+    const existing = findSessionByToken(this.state.sessions, token);
+    if (existing) {
+      this.addLog('info', `${existing.name} rejoined.`);
+      return existing;
+    }
+    // With a class list in use, a name that isn't on it waits for the teacher
+    const session = createStudentSession(this.state, name);
+    if (!session) {
+      this.addLog('error', 'Ignored a join request without a name.');
+      return undefined;
+    }
+    this.state = { ...this.state, sessions: { ...this.state.sessions, [session.studentId]: session } };
+    this.persist();
+    this.addLog('info', session.approval ? `"${session.name}" isn't on the class list and is waiting for approval.` : `${session.name} joined.`);
+    return session;
+  }
+
+  // Lets a held login in as this class-list entry, showing the name from the list
+  private admitAs(studentId: string, member: ClassMember) {
+    const session = this.state.sessions?.[studentId];
+    if (!session) return;
+    const admitted = admitAs(this.state, session, member);
+    this.state = { ...this.state, sessions: { ...this.state.sessions, [studentId]: admitted } };
+    this.persist();
+    this.addLog('info', `${session.name} joined as ${member.name}.`);
+  }
+
+  /**
+   * Lets in a student held for approval. With a memberId they are linked to that pupil on the
+   * class list; without one, the name they typed is added to the list as a new pupil.
+   */
+  public approveStudent(studentId: string, memberId?: string) {
+    const session = this.state.sessions?.[studentId];
+    if (!session || !this.state.className) return;
+    const member = memberId
+      ? this.state.classMembers?.find(m => m.id === memberId)
+      : classLists.addMember(this.state.className, session.name);
+    if (member) this.admitAs(studentId, member);
+  }
+
+  // The student is told to join again with a name from the class list
+  public rejectStudent(studentId: string) {
+    const session = this.state.sessions?.[studentId];
+    if (!session) return;
+    this.state = { ...this.state, sessions: { ...this.state.sessions, [studentId]: { ...session, memberId: undefined, approval: 'rejected' } } };
+    this.persist();
+    this.addLog('info', `Turned away "${session.name}".`);
+  }
+
+  // A held student picked their name from the list; only a name nobody else has taken is given out
+  private claimNameInternal(studentId: string, memberId: string) {
+    const session = this.state.sessions?.[studentId];
+    const admitted = session && applyClaimName(this.state, session, memberId);
+    if (!admitted) return;
+    this.state = { ...this.state, sessions: { ...this.state.sessions, [studentId]: admitted } };
+    this.persist();
+    this.addLog('info', `${session.name} joined as ${admitted.name}.`);
+  }
+
+  private sendToHost(msg: NetworkMessage) {
+    if (USE_WEBSOCKET) {
+        if (this.socket && this.session) {
+            this.socket.emit('message', { roomCode: this.session.roomCode, message: msg });
+        }
     } else {
-       if (USE_WEBSOCKET) {
-           if (this.socket && this.state.roomCode) {
-               this.socket.emit('message', { 
-                   roomCode: this.state.roomCode, 
-                   message: { type: 'SUBMIT_ANSWER', payload: { name: studentName, text } } 
-               });
-           }
-       } else {
-           if (this.connections[0]?.open) {
-             this.connections[0].send({ type: 'SUBMIT_ANSWER', payload: { name: studentName, text } });
-           }
-       }
+        if (this.connections[0]?.open) this.connections[0].send(msg);
+    }
+  }
+
+  // --- Presence (student) ---
+  private startStudentHeartbeat() {
+    this.stopStudentHeartbeat();
+    this.sendPresence();
+    this.studentHeartbeatInterval = setInterval(() => this.sendPresence(), PRESENCE_INTERVAL_MS);
+  }
+
+  private stopStudentHeartbeat() {
+    if (this.studentHeartbeatInterval) clearInterval(this.studentHeartbeatInterval);
+    if (this.typingTimeout) clearTimeout(this.typingTimeout);
+    this.isTyping = false;
+  }
+
+  private sendPresence() {
+    if (!this.session) return;
+    this.sendToHost({ type: 'PRESENCE', payload: { token: this.session.token, typing: this.isTyping } });
+  }
+
+  // Called by Student View on each keystroke. Only changes in typing state are sent straight away.
+  public notifyTyping() {
+    if (this.typingTimeout) clearTimeout(this.typingTimeout);
+    this.typingTimeout = setTimeout(() => {
+      this.isTyping = false;
+      this.sendPresence();
+    }, TYPING_IDLE_MS);
+    if (!this.isTyping) {
+      this.isTyping = true;
+      this.sendPresence();
     }
   }
+
+  // Called by Student View
+  public sendAnswer(text: string) {
+    if (!this.session) return;
+    if (this.typingTimeout) clearTimeout(this.typingTimeout);
+    this.isTyping = false;
+    this.sendToHost({ type: 'SUBMIT_ANSWER', payload: { token: this.session.token, text } });
+  }
+
+  // Called by Student View during a peer-assessment round
+  public sendPeerReview(responseId: string, score: number, matchedPoints: string[] | undefined, comment: string) {
+    if (!this.session) return;
+    this.sendToHost({ type: 'PEER_REVIEW', payload: { token: this.session.token, responseId, score, matchedPoints, comment } });
+  }
+
+  // Called by Student View when a held student picks their name from the class list
+  public claimName(memberId: string) {
+    if (!this.session) return;
+    this.sendToHost({ type: 'CLAIM_NAME', payload: { token: this.session.token, memberId } });
+  }
+
+  // Called by Student View while an answer is projected
+  public sendPeerVote(responseId: string, verdict: PeerVerdict, score: number) {
+    if (!this.session) return;
+    this.sendToHost({ type: 'PEER_VOTE', payload: { token: this.session.token, responseId, verdict, score } });
+  }
   
   private resetListeners: (() => void)[] = [];
   public subscribeReset(callback: () => void): () => void {
@@ -388,29 +1041,191 @@ class GameService {
   }
   private notifyReset() { this.resetListeners.forEach(l => l()); }
 
-  private addAnswerInternal(studentName: string, text: string) {
-    const id = studentName.toLowerCase().replace(/[^a-z0-9]/g, '-') + '-' + Date.now();
-    const response: StudentResponse = {
-      id, studentName, text, submittedAt: Date.now(), score: null,
-    };
+  // Fires on a student device when the host or server refuses the answer it sent
+  private answerRejectedListeners: ((reason: AnswerRejectionReason) => void)[] = [];
+  public subscribeAnswerRejected(callback: (reason: AnswerRejectionReason) => void): () => void {
+      this.answerRejectedListeners.push(callback);
+      return () => { this.answerRejectedListeners = this.answerRejectedListeners.filter(l => l !== callback); };
+  }
+
+  // Fires for every response the host registers, whether submitted over P2P or accepted by the server
+  private answerListeners: ((responseIds: string[]) => void)[] = [];
+  public subscribeNewAnswers(callback: (responseIds: string[]) => void): () => void {
+      this.answerListeners.push(callback);
+      return () => { this.answerListeners = this.answerListeners.filter(l => l !== callback); };
+  }
+  private notifyNewAnswers(responseIds: string[]) {
+    if (responseIds.length) this.answerListeners.forEach(l => l(responseIds));
+  }
+
+  // One response per student per round; submitting again keeps the earlier text as a revision.
+  // Returns why the answer was refused, or null once it is stored.
+  private addAnswerInternal(studentId: string, text: string): AnswerRejectionReason | null {
+    const session = this.state.sessions?.[studentId];
+    if (!session) return null;
+    const rejection = answerRejection(this.state, session, text);
+    if (rejection) {
+      if (rejection !== 'unchanged') this.addLog('info', REJECTED_ANSWER_LOGS[rejection](session.name));
+      return rejection;
+    }
+    const response: StudentResponse = { ...buildResponse(this.state, session, text), lifting: this.analyseLiftingInternal(text) };
     this.state = {
       ...this.state,
-      students: { ...this.state.students, [id]: response }
+      students: { ...this.state.students, [response.id]: response }
     };
     this.persist();
+    this.notifyNewAnswers([response.id]);
+    return null;
+  }
+
+  public setAllowResubmission(allowResubmission: boolean) {
+    this.state = { ...this.state, allowResubmission };
+    this.persist();
+  }
+
+  // --- Round timer ---
+
+  private autoCloseHandle: ReturnType<typeof setTimeout> | null = null;
+
+  // Closes submissions when a running countdown (plus the grace period) reaches zero.
+  // With late answers accepted the round stays open, and answers from then on are marked late.
+  private scheduleAutoClose() {
+    if (this.autoCloseHandle) clearTimeout(this.autoCloseHandle);
+    this.autoCloseHandle = null;
+    const timer = this.state.timer;
+    if (!this.isHost || !timer?.endsAt || !this.state.isAcceptingAnswers || this.state.allowLateSubmissions) return;
+    this.autoCloseHandle = setTimeout(() => {
+      this.autoCloseHandle = null;
+      this.addLog('info', 'Time is up: submissions closed.');
+      this.closeSubmissions();
+    }, getRemainingMs(timer) + LATE_GRACE_MS);
+  }
+
+  public startTimer(seconds: number) {
+    this.state = { ...this.state, isAcceptingAnswers: true, timer: createTimer(seconds * 1000) };
+    this.persist();
+  }
+
+  public pauseTimer() {
+    if (!this.state.timer?.endsAt) return;
+    this.state = { ...this.state, timer: pauseTimer(this.state.timer) };
+    this.persist();
+  }
+
+  public resumeTimer() {
+    if (!this.state.timer || this.state.timer.endsAt) return;
+    this.state = { ...this.state, timer: resumeTimer(this.state.timer) };
+    this.persist();
+  }
+
+  // Extra time after the deadline reopens submissions and restarts the countdown
+  public extendTimer(seconds: number) {
+    const timer = this.state.timer;
+    if (!timer) return;
+    const extended = extendTimer(timer, seconds * 1000);
+    this.state = this.state.isAcceptingAnswers
+      ? { ...this.state, timer: extended }
+      : { ...this.state, isAcceptingAnswers: true, timer: resumeTimer(extended) };
+    this.persist();
+  }
+
+  public closeSubmissions() {
+    const timer = this.state.timer && { ...this.state.timer, endsAt: undefined, remainingMs: 0 };
+    this.state = { ...this.state, isAcceptingAnswers: false, timer };
+    this.persist();
+  }
+
+  // Reopens without a countdown
+  public reopenSubmissions() {
+    this.state = { ...this.state, isAcceptingAnswers: true, timer: undefined };
+    this.persist();
+  }
+
+  public setAllowLateSubmissions(allowLateSubmissions: boolean) {
+    this.state = { ...this.state, allowLateSubmissions };
+    this.persist();
+  }
+
+  private analyseLiftingInternal(text: string, state: GameState = this.state) {
+    const source = getPassageExtract(state.passage);
+    return source ? analyseLifting(text, source, state.prompt) : undefined;
+  }
+
+  // Answers applied by the server arrive without the offline lifting check
+  private withLiftingAnalysis(state: GameState): { state: GameState; changed: boolean } {
+    if (!state.passage) return { state, changed: false };
+    let changed = false;
+    const students: Record<string, StudentResponse> = {};
+    (Object.values(state.students) as StudentResponse[]).forEach(s => {
+      const lifting = s.lifting ? undefined : this.analyseLiftingInternal(s.text, state);
+      students[s.id] = lifting ? { ...s, lifting } : s;
+      // An empty source extract gives no analysis, and nothing needs pushing back to the server
+      if (lifting) changed = true;
+    });
+    return { state: changed ? { ...state, students } : state, changed };
   }
 
   // Teacher Actions
-  public setPrompt(prompt: string, maxScore: number = 2) {
-    this.state = { ...this.state, prompt, maxScore, isAcceptingAnswers: true, projectorDisplay: { type: 'prompt' } };
+  // Round-level settings that start over with each new question
+  private newRoundFields(): Partial<GameState> {
+    return { isAcceptingAnswers: true, roundStartedAt: Date.now(), projectorDisplay: { type: 'prompt' }, resultsRelease: undefined, timer: undefined, peerReview: undefined, roundId: undefined };
+  }
+
+  public setPrompt(prompt: string, maxScore: number = 2, details: PromptDetails = {}) {
+    const { passage, markingNotes, markingScheme, modelAnswer, allowResubmission, timeLimitSeconds } = details;
+    this.state = {
+      ...this.state, prompt, maxScore, passage, markingNotes, markingScheme, modelAnswer,
+      ...this.newRoundFields(),
+      allowResubmission: allowResubmission !== false,
+      timer: timeLimitSeconds ? createTimer(timeLimitSeconds * 1000) : undefined,
+    };
     this.persist();
   }
 
   public resetRound() {
       this.addLog('info', 'Resetting round.');
-      this.state = { ...this.state, students: {}, isAcceptingAnswers: true, projectorDisplay: { type: 'prompt' } };
+      this.archiveCurrentRound();
+      this.state = { ...this.state, students: {}, ...this.newRoundFields() };
       this.persist();
-      
+      this.broadcastResetForm();
+  }
+
+  // --- Lessons ---
+
+  public startLesson(lesson: Lesson, firstQuestion: SavedQuestion) {
+    this.addLog('info', `Starting lesson: ${lesson.title}`);
+    this.state = { ...this.state, lesson: { id: lesson.id, title: lesson.title, questionIds: lesson.questionIds, index: 0 } };
+    this.goToLessonQuestion(firstQuestion, 0);
+  }
+
+  // Moving to another question starts a fresh round; the previous responses go to the archive
+  public goToLessonQuestion(question: SavedQuestion, index: number) {
+    if (!this.state.lesson) return;
+    this.archiveCurrentRound();
+    this.state = {
+      ...this.state,
+      prompt: question.prompt,
+      maxScore: question.maxScore,
+      passage: question.passage,
+      markingNotes: question.markingNotes || undefined,
+      markingScheme: question.markingScheme,
+      modelAnswer: question.modelAnswer || undefined,
+      students: {},
+      ...this.newRoundFields(),
+      allowResubmission: question.allowResubmission !== false,
+      timer: question.timeLimitSeconds ? createTimer(question.timeLimitSeconds * 1000) : undefined,
+      lesson: { ...this.state.lesson, index },
+    };
+    this.persist();
+    this.broadcastResetForm();
+  }
+
+  public endLesson() {
+    this.state = { ...this.state, lesson: undefined };
+    this.persist();
+  }
+
+  private broadcastResetForm() {
       if (this.isHost) {
           this.broadcast({ type: 'RESET_FORM' } as any);
           if (!USE_WEBSOCKET) {
@@ -425,22 +1240,185 @@ class GameService {
     this.persist();
   }
 
+  // --- Peer assessment ---
+
+  // Needs submissions closed, so the answers being marked can't change underneath the markers.
+  // Answers stay refused until the review closes, even if the teacher reopens submissions.
+  public startPeerReview(perStudent: number) {
+    const responses = Object.values(this.state.students) as StudentResponse[];
+    if (this.state.isAcceptingAnswers || responses.length < 2) return;
+    const peerReview = { perStudent, assignments: assignPeerReviews(responses, perStudent), startedAt: Date.now(), releaseComments: false };
+    this.state = { ...this.state, peerReview };
+    this.addLog('info', `Peer review started: ${responses.length} students marking ${Math.min(perStudent, responses.length - 1)} answers each.`);
+    this.persist();
+  }
+
+  public closePeerReview() {
+    if (!isPeerReviewOpen(this.state.peerReview)) return;
+    this.state = { ...this.state, peerReview: { ...this.state.peerReview!, closedAt: Date.now() } };
+    this.persist();
+  }
+
+  public setPeerCommentsReleased(releaseComments: boolean) {
+    if (!this.state.peerReview) return;
+    this.state = { ...this.state, peerReview: { ...this.state.peerReview, releaseComments } };
+    this.persist();
+  }
+
+  // Steps through the discussion of the projected answer: its mark, then lifted phrases, then the model answer
+  public setRevealStep(revealStep: RevealStep) {
+    const display = this.state.projectorDisplay;
+    if (display.type !== 'answer') return;
+    this.state = { ...this.state, projectorDisplay: { ...display, revealStep } };
+    this.persist();
+  }
+
+  // Shows an answer from a past round; its mark, lifting and model answer come from the history
+  public projectArchivedAnswer(round: ArchivedRound, responseId: string) {
+    const response = round.students[responseId];
+    if (!response) return;
+    const archived = { prompt: round.prompt, maxScore: round.maxScore, archivedAt: round.archivedAt, response, modelAnswer: round.modelAnswer };
+    this.state = { ...this.state, projectorDisplay: { type: 'answer', contentId: responseId, archived } };
+    this.persist();
+  }
+
+  // Starts with no annotations showing, so the class can discuss before the teacher's verdict
+  public projectComparison(answerIds: string[]) {
+    const comparisonIds = answerIds.filter(id => this.state.students[id]).slice(0, MAX_COMPARED_ANSWERS);
+    if (comparisonIds.length < MIN_COMPARED_ANSWERS) return;
+    this.state = { ...this.state, projectorDisplay: { type: 'comparison', comparisonIds, annotations: {}, annotationsRevealed: false } };
+    this.persist();
+  }
+
+  public annotateComparison(answerId: string, annotation?: ComparisonAnnotation) {
+    const display = this.state.projectorDisplay;
+    if (display.type !== 'comparison' || !display.comparisonIds?.includes(answerId)) return;
+    const annotations = { ...display.annotations };
+    if (annotation) annotations[answerId] = annotation;
+    else delete annotations[answerId];
+    this.state = { ...this.state, projectorDisplay: { ...display, annotations } };
+    this.persist();
+  }
+
+  public revealComparisonAnnotations(annotationsRevealed: boolean) {
+    const display = this.state.projectorDisplay;
+    if (display.type !== 'comparison') return;
+    this.state = { ...this.state, projectorDisplay: { ...display, annotationsRevealed } };
+    this.persist();
+  }
+
+  public updateStudentComment(id: string, teacherComment: string) {
+    if (this.state.students[id]) {
+      this.state = { ...this.state, students: { ...this.state.students, [id]: { ...this.state.students[id], teacherComment: teacherComment.trim() || undefined } } };
+      this.persist();
+    }
+  }
+
+  // Students see their own mark and the teacher's comment from now on, and the AI feedback if chosen
+  public releaseResults(showAiFeedback: boolean) {
+    this.addLog('info', 'Results released to students.');
+    this.state = { ...this.state, resultsRelease: { releasedAt: Date.now(), showAiFeedback } };
+    this.persist();
+  }
+
+  public withdrawResults() {
+    this.state = { ...this.state, resultsRelease: undefined };
+    this.persist();
+  }
+
   public updateStudentScore(id: string, score: number) {
     if (this.state.students[id]) {
-      this.state = { ...this.state, students: { ...this.state.students, [id]: { ...this.state.students[id], score } } };
+      this.state = { ...this.state, students: { ...this.state.students, [id]: { ...this.state.students[id], score, scoreSource: 'teacher' } } };
+      this.persist();
+    }
+  }
+
+  // Ticking marking scheme points sets the score to their total
+  public updateStudentMatchedPoints(id: string, pointIds: string[]) {
+    if (this.state.students[id] && this.state.markingScheme) {
+      const score = scoreFromPoints(this.state.markingScheme, pointIds, this.state.maxScore);
+      this.state = { ...this.state, students: { ...this.state.students, [id]: { ...this.state.students[id], matchedPoints: pointIds, score, scoreSource: 'teacher' } } };
       this.persist();
     }
   }
 
-  public updateStudentAiData(id: string, score: number, feedback: string) {
+  // The AI's mark becomes the teacher's; with a scheme, its matched points are ticked too
+  private withAcceptedSuggestion(student: StudentResponse): StudentResponse {
+    if (this.state.markingScheme && student.aiMatchedPoints) {
+      const score = scoreFromPoints(this.state.markingScheme, student.aiMatchedPoints, this.state.maxScore);
+      return { ...student, matchedPoints: student.aiMatchedPoints, score, scoreSource: 'ai' };
+    }
+    return { ...student, score: student.aiSuggestedScore ?? student.score, scoreSource: 'ai' };
+  }
+
+  public acceptAiSuggestion(id: string) {
+    const student = this.state.students[id];
+    if (student && student.aiSuggestedScore !== undefined) {
+      this.state = { ...this.state, students: { ...this.state.students, [id]: this.withAcceptedSuggestion(student) } };
+      this.persist();
+    }
+  }
+
+  // Only fills in answers the teacher hasn't marked, and skips suggestions made for an earlier version of the text
+  public acceptAllAiSuggestions(): number {
+    const students = { ...this.state.students };
+    let accepted = 0;
+    (Object.values(students) as StudentResponse[]).forEach(s => {
+      const current = s.aiGradedText === undefined || s.aiGradedText === s.text;
+      if (s.score === null && s.aiSuggestedScore !== undefined && current) {
+        students[s.id] = this.withAcceptedSuggestion(s);
+        accepted++;
+      }
+    });
+    if (accepted) {
+      this.state = { ...this.state, students };
+      this.persist();
+    }
+    return accepted;
+  }
+
+  public updateStudentAiData(id: string, suggestion: GradingResult, gradedText: string) {
+    const student = this.state.students[id];
+    if (student) {
+      const aiData: Partial<StudentResponse> = {
+        aiSuggestedScore: suggestion.score,
+        aiFeedback: suggestion.feedback,
+        aiConfidence: suggestion.confidence,
+        aiMatchedPoints: suggestion.matchedPoints,
+        aiGradedText: gradedText,
+        aiError: undefined,
+      };
+      this.state = { ...this.state, students: { ...this.state.students, [id]: { ...student, ...aiData } } };
+      this.persist();
+    }
+  }
+
+  // A failed attempt is kept apart from the suggestion, so it never reads as the AI awarding 0
+  public updateStudentAiError(id: string, reason: GradingFailureReason, message: string) {
     if (this.state.students[id]) {
-       this.state = { ...this.state, students: { ...this.state.students, [id]: { ...this.state.students[id], aiSuggestedScore: score, aiFeedback: feedback } } };
+      const aiError = { reason, message, failedAt: Date.now() };
+      this.state = { ...this.state, students: { ...this.state.students, [id]: { ...this.state.students[id], aiError } } };
       this.persist();
     }
   }
   
+  // Re-runs the offline lifting check, e.g. after the passage or highlighted lines change
+  public reanalyseLifting() {
+    const students: Record<string, StudentResponse> = {};
+    (Object.values(this.state.students) as StudentResponse[]).forEach(s => {
+      students[s.id] = { ...s, lifting: this.analyseLiftingInternal(s.text) };
+    });
+    this.state = { ...this.state, students };
+    this.persist();
+  }
+  
   public addDemoStudents() {
-    ["Sarah J.", "Mike T.", "David L."].forEach((n) => this.addAnswerInternal(n, "Demo answer text."));
+    ["Sarah J.", "Mike T.", "David L."].forEach((n) => {
+      const session = this.acceptStudent(n);
+      // With a class list loaded, demo names that aren't on it wait for approval like anyone else
+      if (session.approval) return;
+      this.addAnswerInternal(session.studentId, "Demo answer text.");
+    });
   }
 }
 
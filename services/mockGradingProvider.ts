@@ -0,0 +1,47 @@
+import { GradingProvider } from './aiGrading';
+import { analyseLifting, extractKeyTerms } from './liftingService';
+import { scoreFromPoints } from './markingScheme';
+
+// Crude stemming so "frightened" in the scheme matches "frightening" in an answer
+const stem = (word: string) => word.slice(0, 5);
+
+const stems = (text: string) => new Set(extractKeyTerms(text).map(stem));
+
+// A scheme point counts as hit when at least half of its content words appear in the answer
+const matchesPoint = (answerStems: Set<string>, pointText: string) => {
+  const terms = Array.from(stems(pointText));
+  if (!terms.length) return false;
+  return terms.filter(t => answerStems.has(t)).length / terms.length >= 0.5;
+};
+
+/**
+ * Grades with the offline lifting detector and word overlap instead of a model.
+ * Same input always gives the same mark, so it suits demos, tests and networks with no AI access.
+ */
+export const mockGradingProvider: GradingProvider = {
+  id: 'mock',
+  label: 'Offline heuristic (no AI)',
+  defaultModel: 'heuristic',
+  needsApiKey: false,
+  rateLimited: false,
+  evaluate: async ({ prompt, answer, maxScore, passageExtract, markingScheme }) => {
+    const wordCount = answer.trim().split(/\s+/).filter(Boolean).length;
+    if (!wordCount) return { score: 0, feedback: 'No answer given.', matchedPoints: markingScheme.length ? [] : undefined };
+
+    const lifting = passageExtract ? analyseLifting(answer, passageExtract, prompt).percentage : 0;
+    const liftingNote = lifting >= 50 ? 'Mostly lifted from the passage.' : lifting >= 20 ? 'Some phrases lifted.' : 'Own words used.';
+
+    if (markingScheme.length) {
+      const answerStems = stems(answer);
+      const matchedPoints = markingScheme.filter(p => matchesPoint(answerStems, p.text)).map(p => p.id);
+      // Lifted answers earn nothing, as in the exam
+      const score = lifting >= 50 ? 0 : scoreFromPoints(markingScheme, matchedPoints, maxScore);
+      return { score, feedback: `${matchedPoints.length} of ${markingScheme.length} points found. ${liftingNote}`, matchedPoints };
+    }
+
+    const base = wordCount >= 5 ? maxScore : Math.ceil(maxScore / 2);
+    const penalty = lifting >= 50 ? maxScore : lifting >= 20 ? 1 : 0;
+    const score = Math.max(0, base - penalty);
+    return { score, feedback: `${wordCount >= 5 ? 'Developed answer.' : 'Answer is very brief.'} ${liftingNote}` };
+  },
+};
@@ -0,0 +1,36 @@
+import { GradingProvider, GradingError, buildGradingPrompt, normaliseGradingResult, parseModelJson, reasonFromStatus } from './aiGrading';
+
+// Ollama's OpenAI-compatible endpoint; LM Studio, llama.cpp and vLLM work the same way
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+/** Any server that speaks the OpenAI chat completions API, hosted or on the school network. */
+export const openAiCompatibleProvider: GradingProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible endpoint',
+  defaultModel: 'llama3.1',
+  needsApiKey: false,
+  rateLimited: true,
+  evaluate: async (request, { model, apiKey, baseUrl }) => {
+    const url = `${(baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [{ role: 'user', content: buildGradingPrompt(request) }],
+      }),
+    }).catch((error) => {
+      throw new GradingError('network', `Could not reach ${url}: ${error?.message || error}`);
+    });
+    if (!response.ok) throw new GradingError(reasonFromStatus(response.status), `Grading endpoint returned ${response.status}.`);
+    const data = await response.json().catch(() => {
+      throw new GradingError('malformed_json', 'The grading endpoint did not return JSON.');
+    });
+    return normaliseGradingResult(parseModelJson(data.choices?.[0]?.message?.content || ''), request);
+  },
+};
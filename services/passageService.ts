@@ -0,0 +1,47 @@
+import { SourcePassage } from '../types';
+
+// Splits a passage into its printed lines. Line numbers are 1-based, as in exam papers.
+export const getPassageLines = (passage: SourcePassage): string[] => {
+  return passage.text.replace(/\r\n?/g, '\n').split('\n');
+};
+
+export const isTargetLine = (passage: SourcePassage, lineNumber: number): boolean => {
+  const range = passage.targetLines;
+  if (!range) return false;
+  return lineNumber >= range.start && lineNumber <= range.end;
+};
+
+// Human readable reference, e.g. "lines 4-7" or "line 12"
+export const formatLineReference = (passage: SourcePassage): string => {
+  const range = passage.targetLines;
+  if (!range) return '';
+  return range.start === range.end ? `line ${range.start}` : `lines ${range.start}-${range.end}`;
+};
+
+// The text the question refers to: the highlighted lines, or the whole passage if none are set.
+export const getPassageExtract = (passage?: SourcePassage): string => {
+  if (!passage) return '';
+  const lines = getPassageLines(passage);
+  if (!passage.targetLines) return lines.join('\n').trim();
+  return lines.slice(passage.targetLines.start - 1, passage.targetLines.end).join('\n').trim();
+};
+
+// Keeps the range inside the passage and in the right order
+export const clampLineRange = (passage: SourcePassage, start: number, end: number): { start: number; end: number } => {
+  const total = getPassageLines(passage).length;
+  const a = Math.min(Math.max(1, start), total);
+  const b = Math.min(Math.max(1, end), total);
+  return { start: Math.min(a, b), end: Math.max(a, b) };
+};
+
+// Reads a .txt or .md file. Markdown headings and emphasis markers are stripped so line text matches the printed passage.
+export const readPassageFile = async (file: File): Promise<string> => {
+  const raw = await file.text();
+  const text = raw.replace(/\r\n?/g, '\n');
+  if (!/\.(md|markdown)$/i.test(file.name)) return text.trimEnd();
+  return text
+    .split('\n')
+    .map(line => line.replace(/^#{1,6}\s+/, '').replace(/(\*\*|__|\*|_)(.+?)\1/g, '$2'))
+    .join('\n')
+    .trimEnd();
+};
@@ -0,0 +1,34 @@
+import { PeerReview, StudentResponse } from '../types';
+
+export { PEER_COMMENT_MAX_LENGTH, isPeerReviewOpen, peerReviewScore } from '../shared/roomRules';
+
+export const PEER_REVIEW_SIZES = [2, 3];
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+/**
+ * Gives every student who answered the next few answers round a shuffled circle, so nobody
+ * marks their own and every answer is marked the same number of times. With a small class
+ * each student marks everyone else's answer instead.
+ */
+export const assignPeerReviews = (responses: StudentResponse[], perStudent: number): Record<string, string[]> => {
+  const circle = shuffle(responses);
+  const count = Math.min(perStudent, circle.length - 1);
+  const assignments: Record<string, string[]> = {};
+  circle.forEach((reviewer, i) => {
+    assignments[reviewer.studentId] = Array.from({ length: count }, (_, k) => circle[(i + k + 1) % circle.length].id);
+  });
+  return assignments;
+};
+
+export const averagePeerScore = (reviews: Record<string, PeerReview> = {}): number | null => {
+  const all = Object.values(reviews);
+  return all.length ? all.reduce((acc, r) => acc + r.score, 0) / all.length : null;
+};
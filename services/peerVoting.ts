@@ -0,0 +1,20 @@
+import { PeerVerdict, PeerVote, PeerVoteTally } from '../types';
+
+export { PEER_VERDICTS, isPeerVerdict, clampVoteScore } from '../shared/roomRules';
+
+export const PEER_VERDICT_LABELS: Record<PeerVerdict, string> = {
+  own_words: 'Own words',
+  partly_lifted: 'Partly lifted',
+  lifted: 'Lifted',
+};
+
+export const tallyVotes = (votes: Record<string, PeerVote> = {}): PeerVoteTally => {
+  const all = Object.values(votes);
+  const counts: Record<PeerVerdict, number> = { own_words: 0, partly_lifted: 0, lifted: 0 };
+  all.forEach(v => { counts[v.verdict]++; });
+  return {
+    counts,
+    total: all.length,
+    meanScore: all.length ? all.reduce((acc, v) => acc + v.score, 0) / all.length : null,
+  };
+};
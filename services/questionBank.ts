@@ -0,0 +1,113 @@
+import { SavedQuestion, Lesson } from '../types';
+
+const BANK_KEY = 'own_words_wiz_bank';
+
+export interface BankData {
+  questions: Record<string, SavedQuestion>;
+  lessons: Record<string, Lesson>;
+}
+
+export interface QuestionDraft {
+  prompt: string;
+  maxScore: number;
+  passage?: SavedQuestion['passage'];
+  markingNotes: string;
+  markingScheme?: SavedQuestion['markingScheme'];
+  modelAnswer?: string;
+  allowResubmission?: boolean;
+  timeLimitSeconds?: number;
+}
+
+const newId = (prefix: string) => prefix + '-' + Date.now().toString(36) + Math.random().toString(36).substring(2, 6);
+
+/**
+ * QuestionBankService keeps the teacher's saved questions and lessons in localStorage.
+ * It lives on the teacher's device only; students receive questions through GameState once posted.
+ */
+class QuestionBankService {
+  private data: BankData;
+  private listeners: ((data: BankData) => void)[] = [];
+
+  constructor() {
+    const saved = localStorage.getItem(BANK_KEY);
+    this.data = saved ? JSON.parse(saved) : { questions: {}, lessons: {} };
+  }
+
+  public getQuestions(): SavedQuestion[] {
+    return (Object.values(this.data.questions) as SavedQuestion[]).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public getQuestion(id: string): SavedQuestion | undefined { return this.data.questions[id]; }
+
+  public getLessons(): Lesson[] {
+    return (Object.values(this.data.lessons) as Lesson[]).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public getLesson(id: string): Lesson | undefined { return this.data.lessons[id]; }
+
+  public subscribe(callback: (data: BankData) => void): () => void {
+    this.listeners.push(callback);
+    callback(this.data);
+    return () => { this.listeners = this.listeners.filter(l => l !== callback); };
+  }
+
+  private persist() {
+    localStorage.setItem(BANK_KEY, JSON.stringify(this.data));
+    this.listeners.forEach(l => l({ ...this.data }));
+  }
+
+  // --- Questions ---
+
+  public saveQuestion(draft: QuestionDraft, id?: string): SavedQuestion {
+    const question: SavedQuestion = { ...draft, id: id || newId('q'), updatedAt: Date.now() };
+    this.data = { ...this.data, questions: { ...this.data.questions, [question.id]: question } };
+    this.persist();
+    return question;
+  }
+
+  public deleteQuestion(id: string) {
+    const questions = { ...this.data.questions };
+    delete questions[id];
+    // Drop the question from every lesson that used it
+    const lessons: Record<string, Lesson> = {};
+    (Object.values(this.data.lessons) as Lesson[]).forEach(l => {
+      lessons[l.id] = l.questionIds.includes(id) ? { ...l, questionIds: l.questionIds.filter(q => q !== id), updatedAt: Date.now() } : l;
+    });
+    this.data = { questions, lessons };
+    this.persist();
+  }
+
+  // --- Lessons ---
+
+  public createLesson(title: string): Lesson {
+    const lesson: Lesson = { id: newId('lesson'), title, questionIds: [], updatedAt: Date.now() };
+    this.data = { ...this.data, lessons: { ...this.data.lessons, [lesson.id]: lesson } };
+    this.persist();
+    return lesson;
+  }
+
+  public updateLesson(id: string, changes: Partial<Pick<Lesson, 'title' | 'questionIds'>>) {
+    const lesson = this.data.lessons[id];
+    if (!lesson) return;
+    this.data = { ...this.data, lessons: { ...this.data.lessons, [id]: { ...lesson, ...changes, updatedAt: Date.now() } } };
+    this.persist();
+  }
+
+  public moveLessonQuestion(id: string, index: number, direction: -1 | 1) {
+    const lesson = this.data.lessons[id];
+    const target = index + direction;
+    if (!lesson || target < 0 || target >= lesson.questionIds.length) return;
+    const questionIds = [...lesson.questionIds];
+    [questionIds[index], questionIds[target]] = [questionIds[target], questionIds[index]];
+    this.updateLesson(id, { questionIds });
+  }
+
+  public deleteLesson(id: string) {
+    const lessons = { ...this.data.lessons };
+    delete lessons[id];
+    this.data = { ...this.data, lessons };
+    this.persist();
+  }
+}
+
+export const questionBank = new QuestionBankService();
@@ -0,0 +1,31 @@
+import { GameState, StudentPresence, StudentResponse, StudentSession, RosterEntry } from '../types';
+
+// A student counts as gone once heartbeats stop for this long
+export const PRESENCE_TIMEOUT_MS = 15000;
+
+/**
+ * Combines who has joined (sessions), who is online (presence) and who has answered
+ * this round into one list for the teacher. Submitted takes priority over typing;
+ * a student who submitted and then dropped out is shown as disconnected but still counted.
+ * Logins held for approval or turned away are left out; see heldSessions.
+ */
+export const buildRoster = (state: GameState, presence: Record<string, StudentPresence>): RosterEntry[] => {
+  const submitted = new Set((Object.values(state.students) as StudentResponse[]).map(s => s.studentId));
+  return (Object.values(state.sessions || {}) as StudentSession[])
+    .filter(session => !session.approval)
+    .map(session => {
+      const live = presence[session.studentId];
+      const hasSubmitted = submitted.has(session.studentId);
+      const status: RosterEntry['status'] = !live?.connected
+        ? 'disconnected'
+        : hasSubmitted ? 'submitted' : live.typing ? 'typing' : 'joined';
+      return { studentId: session.studentId, name: session.name, status, hasSubmitted, lastSeen: live?.lastSeen };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Students whose typed name wasn't on the class list, oldest first
+export const heldSessions = (state: GameState): StudentSession[] =>
+  (Object.values(state.sessions || {}) as StudentSession[])
+    .filter(s => s.approval === 'pending')
+    .sort((a, b) => a.joinedAt - b.joinedAt);
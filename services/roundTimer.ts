@@ -0,0 +1,31 @@
+import { RoundTimer } from '../types';
+
+export { LATE_GRACE_MS, isPastDeadline } from '../shared/roomRules';
+
+// Choices offered when posting a question, in seconds
+export const TIME_LIMIT_OPTIONS = [30, 60, 90, 120, 180, 300, 600];
+
+export const createTimer = (durationMs: number): RoundTimer => ({ durationMs, endsAt: Date.now() + durationMs });
+
+export const isTimerRunning = (timer?: RoundTimer) => timer?.endsAt !== undefined;
+
+export const getRemainingMs = (timer: RoundTimer, now: number = Date.now()) =>
+  Math.max(0, timer.endsAt !== undefined ? timer.endsAt - now : timer.remainingMs ?? 0);
+
+export const pauseTimer = (timer: RoundTimer): RoundTimer => ({ ...timer, endsAt: undefined, remainingMs: getRemainingMs(timer) });
+
+export const resumeTimer = (timer: RoundTimer): RoundTimer => ({ ...timer, endsAt: Date.now() + getRemainingMs(timer), remainingMs: undefined });
+
+// Adds time whether the timer is running, paused or has run out
+export const extendTimer = (timer: RoundTimer, ms: number): RoundTimer => {
+  if (timer.endsAt !== undefined) return { ...timer, durationMs: timer.durationMs + ms, endsAt: Math.max(timer.endsAt, Date.now()) + ms };
+  return { ...timer, durationMs: timer.durationMs + ms, remainingMs: getRemainingMs(timer) + ms };
+};
+
+export const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const formatTimeLimit = (seconds: number) =>
+  seconds < 60 ? `${seconds} sec` : `${seconds / 60} min`;
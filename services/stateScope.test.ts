@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { scopeStateForProjector } from './stateScope';
+import { GameState, ProjectorDisplay, RevealStep } from '../types';
+
+const state = (projectorDisplay: ProjectorDisplay): GameState => ({
+  roomCode: 'AB12',
+  prompt: 'Explain the passage in your own words.',
+  maxScore: 4,
+  isAcceptingAnswers: false,
+  modelAnswer: 'MODEL ANSWER TEXT',
+  sessions: {
+    s1: { studentId: 's1', token: 'secret-token-1', name: 'Samira Patel', joinedAt: 0 },
+    s2: { studentId: 's2', token: 'secret-token-2', name: 'Kim Lee', joinedAt: 0 },
+  },
+  classMembers: [{ id: 'm1', name: 'Samira Patel', addedAt: 0 }],
+  students: {
+    r1: {
+      id: 'r1', studentId: 's1', studentName: 'Samira Patel', text: 'The storm frightened them.', submittedAt: 10,
+      score: 3, aiSuggestedScore: 2, aiFeedback: 'AI FEEDBACK', teacherComment: 'TEACHER COMMENT',
+      lifting: { percentage: 40, phrases: [{ text: 'the storm', start: 0, end: 9 }], analysedAt: 0 },
+      peerVotes: { s2: { verdict: 'own_words', score: 3, votedAt: 0 } },
+    },
+    r2: {
+      id: 'r2', studentId: 's2', studentName: 'Kim Lee', text: 'It was loud.', submittedAt: 20,
+      score: 1, aiSuggestedScore: 1, teacherComment: 'OTHER COMMENT',
+    },
+  },
+  projectorDisplay,
+});
+
+// Nothing that identifies a student or carries a mark or comment may reach the projector
+const expectNothingPrivate = (scoped: GameState) => {
+  const json = JSON.stringify(scoped);
+  ['Samira', 'Kim Lee', 'secret-token', 'AI FEEDBACK', 'TEACHER COMMENT', 'OTHER COMMENT'].forEach(text => expect(json).not.toContain(text));
+  expect(scoped.sessions).toBeUndefined();
+  expect(scoped.classMembers).toBeUndefined();
+  Object.values(scoped.students).forEach(r => {
+    expect(r).toMatchObject({ studentId: '', studentName: '' });
+    expect(r.aiSuggestedScore).toBeUndefined();
+    expect(r.peerVotes).toBeUndefined();
+  });
+};
+
+describe('scopeStateForProjector', () => {
+  it('sends only the prompt and a count of answers while the prompt is shown', () => {
+    const scoped = scopeStateForProjector(state({ type: 'prompt' }));
+    expect(scoped.students).toEqual({});
+    expect(scoped.responseCount).toBe(2);
+    expect(scoped.modelAnswer).toBeUndefined();
+    expectNothingPrivate(scoped);
+  });
+
+  it.each<[RevealStep | undefined, { score: number | null; lifting: boolean; modelAnswer: boolean }]>([
+    [undefined, { score: null, lifting: false, modelAnswer: false }],
+    ['answer', { score: null, lifting: false, modelAnswer: false }],
+    ['score', { score: 3, lifting: false, modelAnswer: false }],
+    ['lifting', { score: 3, lifting: true, modelAnswer: false }],
+    ['model_answer', { score: 3, lifting: true, modelAnswer: true }],
+  ])('at reveal step %s shows only what has been revealed', (revealStep, shown) => {
+    const scoped = scopeStateForProjector(state({ type: 'answer', contentId: 'r1', revealStep }));
+    expect(Object.keys(scoped.students)).toEqual(['r1']);
+    const projected = scoped.students.r1;
+    expect(projected.text).toBe('The storm frightened them.');
+    expect(projected.score).toBe(shown.score);
+    expect(projected.lifting !== undefined).toBe(shown.lifting);
+    expect(scoped.modelAnswer !== undefined).toBe(shown.modelAnswer);
+    expect(scoped.voteTally?.total).toBe(1);
+    expectNothingPrivate(scoped);
+  });
+
+  it('shows compared answers without marks, and their annotations only once revealed', () => {
+    const display: ProjectorDisplay = { type: 'comparison', comparisonIds: ['r2', 'r1'], annotations: { r1: 'own_words', r2: 'lifted' } };
+    const hidden = scopeStateForProjector(state(display));
+    expect(Object.keys(hidden.students).sort()).toEqual(['r1', 'r2']);
+    expect(hidden.students.r2.score).toBeNull();
+    expect(hidden.projectorDisplay.annotations).toBeUndefined();
+    expectNothingPrivate(hidden);
+
+    const revealed = scopeStateForProjector(state({ ...display, annotationsRevealed: true }));
+    expect(revealed.projectorDisplay.annotations).toEqual({ r1: 'own_words', r2: 'lifted' });
+    expect(revealed.students.r1.score).toBeNull();
+    expectNothingPrivate(revealed);
+  });
+});
@@ -0,0 +1,51 @@
+import { GameState, StudentResponse } from '../types';
+import { tallyVotes } from './peerVoting';
+import { isRevealed, sharedState } from '../shared/roomRules';
+
+// The server scopes students' state the same way while the teacher is away
+export { REVEAL_STEPS, isRevealed, getVoteTarget, scopeStateForStudent } from '../shared/roomRules';
+
+const anonymised = (response: StudentResponse): StudentResponse => ({
+  id: response.id,
+  studentId: '',
+  studentName: '',
+  text: response.text,
+  submittedAt: response.submittedAt,
+  score: null,
+});
+
+/**
+ * What the projector receives: only what is on screen. Projected answers are sent
+ * anonymised, and the ticker gets a count rather than the responses themselves.
+ * A single projected answer gains its mark, lifted phrases and the model answer as the teacher reveals them.
+ */
+export const scopeStateForProjector = (state: GameState): GameState => {
+  const display = state.projectorDisplay;
+  // An answer from a past round comes from the history snapshot rather than this round's responses
+  const archived = display.type === 'answer' ? display.archived : undefined;
+  const scoped: GameState = {
+    ...sharedState(state),
+    projectorDisplay: display.type === 'comparison'
+      ? { ...display, annotations: display.annotationsRevealed ? display.annotations : undefined }
+      : archived
+        ? { ...display, archived: { prompt: archived.prompt, maxScore: archived.maxScore, archivedAt: archived.archivedAt } }
+        : display,
+    responseCount: Object.keys(state.students).length,
+  };
+  const lookup = (id: string) => archived ? (archived.response?.id === id ? archived.response : undefined) : state.students[id];
+  const projectedIds = display.type === 'answer' && display.contentId ? [display.contentId]
+    : display.type === 'comparison' ? display.comparisonIds || []
+    : [];
+  projectedIds.forEach(id => {
+    const projected = lookup(id);
+    if (projected) scoped.students[id] = anonymised(projected);
+  });
+  const single = display.type === 'answer' && display.contentId ? lookup(display.contentId) : undefined;
+  if (single) {
+    scoped.voteTally = archived ? undefined : tallyVotes(single.peerVotes);
+    if (isRevealed(display, 'score')) scoped.students[single.id].score = single.score;
+    if (isRevealed(display, 'lifting')) scoped.students[single.id].lifting = single.lifting;
+    if (isRevealed(display, 'model_answer')) scoped.modelAnswer = archived ? archived.modelAnswer : state.modelAnswer;
+  }
+  return scoped;
+};
@@ -0,0 +1,36 @@
+import { GameState, StudentSession, SavedStudentSession } from '../types';
+import { newSession } from '../shared/roomRules';
+
+const SESSION_KEY = 'own_words_wiz_student_session';
+
+const randomId = (length: number) => {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export { uniqueDisplayName } from '../shared/roomRules';
+
+// A new login for a joining student, linked to the class list when their name matches an entry on it
+export const createStudentSession = (state: GameState, name: string): StudentSession | undefined =>
+  newSession(state, name, { studentId: 'stu-' + randomId(6), token: randomId(16) });
+
+export const findSessionByToken = (sessions: Record<string, StudentSession> | undefined, token?: string): StudentSession | undefined => {
+  if (!sessions || !token) return undefined;
+  return (Object.values(sessions) as StudentSession[]).find(s => s.token === token);
+};
+
+// --- Student device storage ---
+
+export const loadSavedSession = (): SavedStudentSession | null => {
+  const saved = localStorage.getItem(SESSION_KEY);
+  return saved ? JSON.parse(saved) : null;
+};
+
+export const saveSession = (session: SavedStudentSession) => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+export const clearSavedSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
@@ -0,0 +1,124 @@
+import { ArchivedRound, ClassList, ClassMember, StudentResponse, StudentSession } from '../types';
+import { LIFTED_FLAG_PERCENT } from './liftingService';
+import { sortedMembers } from './classLists';
+
+// One archived round as it went for one pupil
+export interface ProgressPoint {
+  roundId: string;
+  prompt: string;
+  takenAt: number;
+  maxScore: number;
+  submitted: boolean;
+  percent: number | null; // Mark as a share of maxScore, 0-100; null if unanswered or unmarked
+  liftedPercent: number | null;
+  flagged: boolean; // Lifting at or above LIFTED_FLAG_PERCENT
+}
+
+export interface StudentProgress {
+  member: ClassMember;
+  points: ProgressPoint[]; // Rounds the pupil was logged in for, oldest first
+  submitted: number;
+  submissionRate: number | null; // 0-1, of the rounds they were logged in for
+  averagePercent: number | null;
+  flaggedCount: number;
+  trend: number | null; // Change in percent per marked round, from a least-squares fit
+}
+
+// Logins from a class's rounds that aren't linked to anyone on the class list, grouped by name
+export interface UnlinkedLogin {
+  name: string;
+  studentIds: string[];
+  rounds: number;
+}
+
+const roundTime = (round: ArchivedRound) => round.startedAt || round.archivedAt;
+
+// Oldest first, so charts read left to right
+export const roundsForClass = (rounds: ArchivedRound[], className: string): ArchivedRound[] =>
+  rounds.filter(r => r.className === className).sort((a, b) => roundTime(a) - roundTime(b));
+
+// Older rounds may have answers with no saved login, so fall back to the response itself
+export const roundLogins = (round: ArchivedRound): StudentSession[] => {
+  const logins: Record<string, StudentSession> = { ...round.sessions };
+  (Object.values(round.students) as StudentResponse[]).forEach(r => {
+    if (!logins[r.studentId]) logins[r.studentId] = { studentId: r.studentId, token: '', name: r.studentName, joinedAt: r.submittedAt };
+  });
+  return Object.values(logins);
+};
+
+const slope = (values: number[]): number | null => {
+  if (values.length < 2) return null;
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  values.forEach((y, x) => {
+    num += (x - meanX) * (y - meanY);
+    den += (x - meanX) ** 2;
+  });
+  return num / den;
+};
+
+const progressPoint = (round: ArchivedRound, response?: StudentResponse): ProgressPoint => ({
+  roundId: round.id,
+  prompt: round.prompt,
+  takenAt: roundTime(round),
+  maxScore: round.maxScore,
+  submitted: !!response,
+  percent: response && response.score !== null && round.maxScore > 0 ? Math.round((response.score / round.maxScore) * 100) : null,
+  liftedPercent: response?.lifting ? response.lifting.percentage : null,
+  flagged: !!response?.lifting && response.lifting.percentage >= LIFTED_FLAG_PERCENT,
+});
+
+/**
+ * Follows each pupil on the class list through the class's archived rounds. A pupil is
+ * matched by the class-list entry their login was linked to, never by the name they typed,
+ * so "Sam", "sam j" and a second device all count as the same pupil once linked.
+ */
+export const buildClassProgress = (rounds: ArchivedRound[], list: ClassList): StudentProgress[] => {
+  const classRounds = roundsForClass(rounds, list.className);
+  return sortedMembers(list).map(member => {
+    const points: ProgressPoint[] = [];
+    classRounds.forEach(round => {
+      const ids = roundLogins(round).filter(s => s.memberId === member.id).map(s => s.studentId);
+      if (ids.length === 0) return;
+      // If a pupil answered from two logins, the later answer is the one that counts
+      const response = (Object.values(round.students) as StudentResponse[])
+        .filter(r => ids.includes(r.studentId))
+        .sort((a, b) => b.submittedAt - a.submittedAt)[0];
+      points.push(progressPoint(round, response));
+    });
+    const marked = points.map(p => p.percent).filter((p): p is number => p !== null);
+    const submitted = points.filter(p => p.submitted).length;
+    return {
+      member,
+      points,
+      submitted,
+      submissionRate: points.length ? submitted / points.length : null,
+      averagePercent: marked.length ? marked.reduce((a, b) => a + b, 0) / marked.length : null,
+      flaggedCount: points.filter(p => p.flagged).length,
+      trend: slope(marked),
+    };
+  });
+};
+
+// Every login across the rounds that was linked to this pupil
+export const linkedStudentIds = (rounds: ArchivedRound[], memberId: string): string[] =>
+  Array.from(new Set(rounds.flatMap(round => roundLogins(round).filter(s => s.memberId === memberId).map(s => s.studentId))));
+
+export const findUnlinkedLogins = (rounds: ArchivedRound[], className: string): UnlinkedLogin[] => {
+  const byName = new Map<string, UnlinkedLogin>();
+  roundsForClass(rounds, className).forEach(round => {
+    const seen = new Set<string>();
+    roundLogins(round).filter(s => !s.memberId).forEach(s => {
+      const key = s.name.trim().toLowerCase();
+      const entry = byName.get(key) || { name: s.name, studentIds: [], rounds: 0 };
+      if (!entry.studentIds.includes(s.studentId)) entry.studentIds.push(s.studentId);
+      if (!seen.has(key)) entry.rounds++;
+      seen.add(key);
+      byName.set(key, entry);
+    });
+  });
+  return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, DiffPart } from './textDiff';
+
+// What the later version reads as, once removed words are dropped
+const after = (parts: DiffPart[]) => parts.filter(p => p.type !== 'removed').map(p => p.text).join('');
+
+describe('diffWords', () => {
+  it('marks inserted words as added', () => {
+    const parts = diffWords('The sea was calm.', 'The sea was very calm.');
+    expect(parts).toEqual([
+      { text: 'The sea was ', type: 'same' },
+      { text: 'very ', type: 'added' },
+      { text: 'calm.', type: 'same' },
+    ]);
+  });
+
+  it('marks deleted words as removed', () => {
+    const parts = diffWords('He walked slowly home.', 'He walked home.');
+    expect(parts).toEqual([
+      { text: 'He walked ', type: 'same' },
+      { text: 'slowly ', type: 'removed' },
+      { text: 'home.', type: 'same' },
+    ]);
+  });
+
+  it('rebuilds the later version, spacing included, from a mixed edit', () => {
+    const later = 'The wild storm was frightening and\nloud.';
+    const parts = diffWords('The storm was loud and frightening.', later);
+    expect(after(parts)).toBe(later);
+    expect(parts.filter(p => p.type === 'added').map(p => p.text.trim())).toEqual(['wild', 'frightening', 'loud.']);
+    expect(parts.filter(p => p.type === 'removed').map(p => p.text.trim())).toEqual(['loud', 'frightening.']);
+  });
+
+  it('treats identical text, ignoring case, as one unchanged part', () => {
+    expect(diffWords('Same answer.', 'Same answer.')).toEqual([{ text: 'Same answer.', type: 'same' }]);
+    expect(diffWords('same Answer.', 'Same answer.')).toEqual([{ text: 'Same answer.', type: 'same' }]);
+  });
+
+  it('shows the whole answer as added when there was no earlier version', () => {
+    expect(diffWords('', 'A first answer.')).toEqual([{ text: 'A first answer.', type: 'added' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+export interface DiffPart {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+// Words with their trailing whitespace, so joining the parts gives back the original spacing
+const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) || [];
+
+/**
+ * Word-level diff from an earlier version of an answer to a later one, using the longest
+ * common subsequence. Answers are a few sentences, so the quadratic table is small.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const key = (token: string) => token.trim().toLowerCase();
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = key(a[i]) === key(b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, type: DiffPart['type']) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ text, type });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]) === key(b[j])) { push(b[j], 'same'); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) push(a[i++], 'removed');
+    else push(b[j++], 'added');
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+};
@@ -0,0 +1,397 @@
+// Room rules used by both the teacher's device (services/*.ts) and the server (server/roomStore.js),
+// so the two backends can't drift apart. Plain JavaScript so Node runs it without a build step;
+// the JSDoc types come from types.ts.
+
+/**
+ * @typedef {import('../types').GameState} GameState
+ * @typedef {import('../types').StudentResponse} StudentResponse
+ * @typedef {import('../types').StudentSession} StudentSession
+ * @typedef {import('../types').ClassMember} ClassMember
+ * @typedef {import('../types').ProjectorDisplay} ProjectorDisplay
+ * @typedef {import('../types').RevealStep} RevealStep
+ * @typedef {import('../types').PeerVerdict} PeerVerdict
+ * @typedef {import('../types').PeerReviewRound} PeerReviewRound
+ * @typedef {import('../types').MarkingPoint} MarkingPoint
+ */
+
+// --- Deadline ---
+
+// Answers this soon after the deadline still count: covers network delay and small clock differences
+export const LATE_GRACE_MS = 2000;
+
+/**
+ * Whether a running countdown has passed zero (plus the grace period). Closing submissions
+ * by hand is not "late": a closed round refuses every answer, late ones included.
+ * @param {GameState} state
+ * @returns {boolean}
+ */
+export const isPastDeadline = (state, now = Date.now()) =>
+  state.timer?.endsAt !== undefined && now > state.timer.endsAt + LATE_GRACE_MS;
+
+// --- Answers ---
+
+// Long enough for any short-answer question; stops a device flooding the room with text
+export const MAX_ANSWER_LENGTH = 2000;
+
+/** @returns {text is string} */
+export const isValidAnswerText = (/** @type {unknown} */ text) =>
+  typeof text === 'string' && text.trim().length > 0 && text.length <= MAX_ANSWER_LENGTH;
+
+/**
+ * @param {GameState} state
+ * @param {string} studentId
+ * @returns {StudentResponse | undefined}
+ */
+export const findOwnResponse = (state, studentId) =>
+  Object.values(state.students || {}).find(s => s.studentId === studentId);
+
+/**
+ * Why an answer must be refused, or null if it is taken. An unchanged resubmission is
+ * refused as 'unchanged' so nothing is stored twice.
+ * @param {GameState} state
+ * @param {StudentSession} session
+ * @param {unknown} text
+ * @returns {import('../types').AnswerRejectionReason | null}
+ */
+export const answerRejection = (state, session, text, now = Date.now()) => {
+  if (!isValidAnswerText(text)) return 'invalid';
+  if (session.approval) return 'not_admitted';
+  if (!state.isAcceptingAnswers) return 'closed';
+  // Classmates are marking the answers, so they can't change underneath them
+  if (isPeerReviewOpen(state.peerReview)) return 'peer_review';
+  if (isPastDeadline(state, now) && !state.allowLateSubmissions) return 'late';
+  const existing = findOwnResponse(state, session.studentId);
+  if (existing && state.allowResubmission === false) return 'no_resubmission';
+  if (existing?.text === text) return 'unchanged';
+  return null;
+};
+
+/**
+ * The student's response with this answer in it: a new one, or the existing one revised with
+ * the old text kept as a revision. The lifting check is left for the teacher's device to run.
+ * Call only once answerRejection has returned null.
+ * @param {GameState} state
+ * @param {StudentSession} session
+ * @param {string} text
+ * @returns {StudentResponse}
+ */
+export const buildResponse = (state, session, text, now = Date.now()) => {
+  const existing = findOwnResponse(state, session.studentId);
+  const late = isPastDeadline(state, now) || undefined;
+  return existing
+    ? {
+        ...existing,
+        text,
+        submittedAt: now,
+        late,
+        revisions: [...(existing.revisions || []), { text: existing.text, submittedAt: existing.submittedAt }],
+        lifting: undefined,
+      }
+    : { id: session.studentId + '-' + now, studentId: session.studentId, studentName: session.name, text, submittedAt: now, score: null, late };
+};
+
+// --- Projector reveals and peer voting ---
+
+/** @type {RevealStep[]} */
+export const REVEAL_STEPS = ['answer', 'score', 'lifting', 'model_answer'];
+
+/**
+ * Whether a projected answer's discussion has reached the given step
+ * @param {ProjectorDisplay} display
+ * @param {RevealStep} step
+ */
+export const isRevealed = (display, step) =>
+  REVEAL_STEPS.indexOf(display.revealStep || 'answer') >= REVEAL_STEPS.indexOf(step);
+
+/**
+ * The class votes on a projected answer until the teacher reveals its mark
+ * @param {GameState} state
+ * @returns {StudentResponse | undefined}
+ */
+export const getVoteTarget = (state) => {
+  const display = state.projectorDisplay || { type: 'prompt' };
+  if (display.type !== 'answer' || !display.contentId || display.archived || isRevealed(display, 'score')) return undefined;
+  return state.students?.[display.contentId];
+};
+
+/** @type {PeerVerdict[]} */
+export const PEER_VERDICTS = ['own_words', 'partly_lifted', 'lifted'];
+
+/** @returns {value is PeerVerdict} */
+export const isPeerVerdict = (/** @type {unknown} */ value) => PEER_VERDICTS.includes(/** @type {PeerVerdict} */ (value));
+
+// Whole marks within range; anything else a device sends is pulled back into it
+export const clampVoteScore = (/** @type {number} */ score, /** @type {number} */ maxScore) =>
+  Math.min(maxScore, Math.max(0, Math.round(Number(score) || 0)));
+
+/**
+ * The projected answer with this student's vote on it, or undefined if the vote doesn't count.
+ * A later vote from the same student replaces their earlier one; nobody votes on their own answer.
+ * @param {GameState} state
+ * @param {StudentSession} session
+ * @param {{ responseId?: string, verdict?: unknown, score?: number }} vote
+ * @returns {StudentResponse | undefined}
+ */
+export const applyPeerVote = (state, session, { responseId, verdict, score } = {}, now = Date.now()) => {
+  const target = getVoteTarget(state);
+  if (session.approval || !target || target.id !== responseId || target.studentId === session.studentId || !isPeerVerdict(verdict)) return undefined;
+  const cast = { verdict, score: clampVoteScore(score, state.maxScore), votedAt: now };
+  return { ...target, peerVotes: { ...target.peerVotes, [session.studentId]: cast } };
+};
+
+// --- Peer assessment ---
+
+// Comments are meant to be one line
+export const PEER_COMMENT_MAX_LENGTH = 140;
+
+/** @returns {boolean} */
+export const isPeerReviewOpen = (/** @type {PeerReviewRound | undefined} */ round) => !!round && !round.closedAt;
+
+/**
+ * Total of the ticked points, capped at the question's max score ("any two of the following")
+ * @param {MarkingPoint[]} scheme
+ * @param {string[]} pointIds
+ * @param {number} maxScore
+ * @returns {number}
+ */
+export const scoreFromPoints = (scheme, pointIds, maxScore) => {
+  const total = scheme.filter(p => pointIds.includes(p.id)).reduce((acc, p) => acc + p.marks, 0);
+  return Math.min(total, maxScore);
+};
+
+/**
+ * Scheme questions are marked by ticking points, like the teacher does; others by a whole mark in range
+ * @param {number} score
+ * @param {string[] | undefined} matchedPoints
+ * @param {MarkingPoint[] | undefined} scheme
+ * @param {number} maxScore
+ * @returns {number}
+ */
+export const peerReviewScore = (score, matchedPoints, scheme, maxScore) =>
+  scheme?.length
+    ? scoreFromPoints(scheme, matchedPoints || [], maxScore)
+    : Math.min(maxScore, Math.max(0, Math.round(Number(score) || 0)));
+
+/**
+ * The reviewed answer with this student's review on it, or undefined if they weren't assigned it.
+ * Marking an answer again replaces the earlier review.
+ * @param {GameState} state
+ * @param {StudentSession} session
+ * @param {{ responseId?: string, score?: number, matchedPoints?: unknown, comment?: unknown }} review
+ * @returns {StudentResponse | undefined}
+ */
+export const applyPeerReview = (state, session, { responseId, score, matchedPoints, comment } = {}, now = Date.now()) => {
+  const round = state.peerReview;
+  const response = responseId ? state.students?.[responseId] : undefined;
+  if (session.approval || !isPeerReviewOpen(round) || !round.assignments[session.studentId]?.includes(responseId) || !response) return undefined;
+  const scheme = state.markingScheme;
+  const points = scheme?.length && Array.isArray(matchedPoints) ? matchedPoints.filter(id => scheme.some(p => p.id === id)) : undefined;
+  const marked = {
+    score: peerReviewScore(score, points, scheme, state.maxScore),
+    matchedPoints: points,
+    comment: String(comment || '').trim().slice(0, PEER_COMMENT_MAX_LENGTH),
+    submittedAt: now,
+  };
+  return { ...response, peerReviews: { ...response.peerReviews, [session.studentId]: marked } };
+};
+
+// --- Student identity and the class list ---
+
+// Room for a full name; longer ones are cut, so a device can't fill the roster (or the room file) with text
+export const MAX_NAME_LENGTH = 40;
+
+/**
+ * "Sam" becomes "Sam (2)" if another student in the room is already called Sam
+ * @param {unknown} name
+ * @param {string[]} taken
+ * @returns {string}
+ */
+export const uniqueDisplayName = (name, taken) => {
+  const base = String(name || '').trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH).trim() || 'Student';
+  const lower = new Set(taken.map(n => n.toLowerCase()));
+  if (!lower.has(base.toLowerCase())) return base;
+  let n = 2;
+  while (lower.has(`${base} (${n})`.toLowerCase())) n++;
+  return `${base} (${n})`;
+};
+
+// Letters and digits only, so "Zoë O'Neill" and "zoe o neill" compare equal but "xXbobXx" stays far from "bob"
+const nameKey = (/** @type {unknown} */ name) =>
+  String(name || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const editDistance = (/** @type {string} */ a, /** @type {string} */ b) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Entries no admitted or waiting login has been linked to yet
+ * @param {ClassMember[]} [members]
+ * @param {Record<string, StudentSession>} [sessions]
+ * @returns {ClassMember[]}
+ */
+export const unclaimedMembers = (members = [], sessions = {}) => {
+  const claimed = new Set(Object.values(sessions).filter(s => s.approval !== 'rejected').map(s => s.memberId));
+  return members.filter(m => !claimed.has(m.id));
+};
+
+/**
+ * Finds the one entry a typed name most likely means: an exact name first, then a first name with an optional surname initial ("bob", "Bob M"), then a name
+ * within a typo or two. Anything ambiguous or further off gives no match, so the teacher
+ * decides instead of the app guessing.
+ * @param {ClassMember[]} members
+ * @param {unknown} typed
+ * @returns {ClassMember | undefined}
+ */
+export const matchClassMember = (members, typed) => {
+  const key = nameKey(typed);
+  if (!key) return undefined;
+  const exact = members.filter(m => nameKey(m.name) === key);
+  if (exact.length > 0) return exact.length === 1 ? exact[0] : undefined;
+  const words = key.split(' ');
+  const close = members.filter(m => {
+    const full = nameKey(m.name);
+    const parts = full.split(' ');
+    const surname = parts[parts.length - 1];
+    if (words[0] === parts[0] && (words.length === 1 || (words.length === 2 && parts.length > 1 && surname.startsWith(words[1])))) return true;
+    return editDistance(key, full) <= Math.min(2, Math.floor(full.length / 5));
+  });
+  return close.length === 1 ? close[0] : undefined;
+};
+
+/**
+ * A new login for a joining student. With a class list in use, a name that matches an
+ * unclaimed entry is linked to it and shown as it is on the list; any other name waits
+ * for the teacher. The ids are made by the caller, as browser and server generate them differently.
+ * A name that isn't text gets no login at all.
+ * @param {GameState} state
+ * @param {unknown} name
+ * @param {{ studentId: string, token: string }} ids
+ * @returns {StudentSession | undefined}
+ */
+export const newSession = (state, name, ids, now = Date.now()) => {
+  if (typeof name !== 'string') return undefined;
+  const sessions = state.sessions || {};
+  const members = state.classMembers || [];
+  const member = matchClassMember(unclaimedMembers(members, sessions), name);
+  return {
+    ...ids,
+    name: uniqueDisplayName(member ? member.name : name, Object.values(sessions).map(s => s.name)),
+    joinedAt: now,
+    memberId: member?.id,
+    approval: members.length > 0 && !member ? 'pending' : undefined,
+  };
+};
+
+/**
+ * The login let in as this class-list entry, showing the name from the list
+ * @param {GameState} state
+ * @param {StudentSession} session
+ * @param {ClassMember} member
+ * @returns {StudentSession}
+ */
+export const admitAs = (state, session, member) => {
+  const others = Object.values(state.sessions || {}).filter(s => s.studentId !== session.studentId).map(s => s.name);
+  return { ...session, name: uniqueDisplayName(member.name, others), memberId: member.id, approval: undefined };
+};
+
+/**
+ * A held student picked their name from the list. Only a name nobody else has taken is given out.
+ * @param {GameState} state
+ * @param {StudentSession} session
+ * @param {unknown} memberId
+ * @returns {StudentSession | undefined}
+ */
+export const applyClaimName = (state, session, memberId) => {
+  if (session.approval !== 'pending') return undefined;
+  const member = unclaimedMembers(state.classMembers, state.sessions).find(m => m.id === memberId);
+  return member ? admitAs(state, session, member) : undefined;
+};
+
+// --- What a student device receives ---
+
+/**
+ * Fields every role may see. Teacher-only data (marking notes, scheme, lesson plan) is left out.
+ * @param {GameState} state
+ * @returns {GameState}
+ */
+export const sharedState = (state) => ({
+  roomCode: state.roomCode,
+  prompt: state.prompt,
+  maxScore: state.maxScore,
+  passage: state.passage,
+  isAcceptingAnswers: state.isAcceptingAnswers,
+  allowResubmission: state.allowResubmission,
+  timer: state.timer,
+  allowLateSubmissions: state.allowLateSubmissions,
+  students: {},
+  projectorDisplay: { type: 'prompt' },
+  resultsRelease: state.resultsRelease,
+});
+
+/**
+ * A student's own response as they may see it: marks and feedback only after the teacher releases results
+ * @param {StudentResponse} response
+ * @param {GameState['resultsRelease']} release
+ * @returns {StudentResponse}
+ */
+const visibleToAuthor = (response, release) => ({
+  id: response.id,
+  studentId: response.studentId,
+  studentName: response.studentName,
+  text: response.text,
+  submittedAt: response.submittedAt,
+  score: release ? response.score : null,
+  teacherComment: release ? response.teacherComment : undefined,
+  aiFeedback: release?.showAiFeedback ? response.aiFeedback : undefined,
+});
+
+/**
+ * What a single student device receives: the question and only their own submission.
+ * Classmates' answers, names and marks never leave the host, and AI grading data never does.
+ * The one exception is the projected answer, sent anonymised for voting as it is already on screen.
+ * A login held for approval gets the class list's unclaimed names to pick from, and nothing else.
+ * @param {GameState} state
+ * @param {string} [studentId]
+ * @returns {GameState}
+ */
+export const scopeStateForStudent = (state, studentId) => {
+  const scoped = sharedState(state);
+  if (!studentId) return scoped;
+  const session = state.sessions?.[studentId];
+  if (session) scoped.joinStatus = { name: session.name, approval: session.approval };
+  if (session?.approval === 'pending') {
+    scoped.joinStatus.choices = unclaimedMembers(state.classMembers, state.sessions).map(m => ({ id: m.id, name: m.name }));
+  }
+  if (session?.approval) return scoped;
+  const own = Object.values(state.students || {}).filter(s => s.studentId === studentId);
+  own.forEach(s => { scoped.students[s.id] = visibleToAuthor(s, state.resultsRelease); });
+  const target = getVoteTarget(state);
+  // Students don't vote on their own answer
+  if (target && target.studentId !== studentId) {
+    scoped.openVote = { responseId: target.id, text: target.text, myVote: target.peerVotes?.[studentId] };
+  }
+  const review = state.peerReview;
+  const tasks = isPeerReviewOpen(review) ? review.assignments[studentId] || [] : [];
+  if (tasks.length) {
+    scoped.reviewTasks = tasks
+      .filter(id => state.students[id])
+      .map(id => ({ responseId: id, text: state.students[id].text, myReview: state.students[id].peerReviews?.[studentId] }));
+    // Peer markers work from the same scheme as the teacher
+    scoped.markingScheme = state.markingScheme;
+  }
+  if (review?.releaseComments) {
+    scoped.receivedPeerComments = own
+      .flatMap(s => Object.values(s.peerReviews || {}))
+      .map(r => r.comment)
+      .filter(Boolean);
+  }
+  return scoped;
+};
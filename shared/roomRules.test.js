@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LATE_GRACE_MS,
+  isPastDeadline,
+  MAX_ANSWER_LENGTH,
+  MAX_NAME_LENGTH,
+  answerRejection,
+  buildResponse,
+  applyPeerVote,
+  applyPeerReview,
+  matchClassMember,
+  newSession,
+  applyClaimName,
+  scopeStateForStudent,
+} from './roomRules.js';
+
+const NOW = 1_000_000;
+
+const members = [
+  { id: 'm1', name: 'Alice Smith', addedAt: 0 },
+  { id: 'm2', name: 'Bob Martin', candidateNumber: '4021', addedAt: 0 },
+  { id: 'm3', name: 'Zoë O\'Neill', addedAt: 0 },
+];
+
+const sam = { studentId: 's1', token: 't1', name: 'Sam', joinedAt: 0 };
+const kim = { studentId: 's2', token: 't2', name: 'Kim', joinedAt: 0 };
+
+const room = (extra = {}) => ({
+  roomCode: 'AB12',
+  prompt: 'Explain the passage in your own words.',
+  maxScore: 4,
+  isAcceptingAnswers: true,
+  students: {},
+  sessions: { s1: sam, s2: kim },
+  projectorDisplay: { type: 'prompt' },
+  ...extra,
+});
+
+const answered = (extra = {}) => room({
+  students: {
+    r1: { id: 'r1', studentId: 's1', studentName: 'Sam', text: 'First go', submittedAt: 10, score: null },
+    r2: { id: 'r2', studentId: 's2', studentName: 'Kim', text: 'Kim\'s answer', submittedAt: 20, score: 3, teacherComment: 'Good' },
+  },
+  ...extra,
+});
+
+describe('deadline', () => {
+  it('only counts a running countdown past zero and the grace period as late', () => {
+    const state = room({ timer: { durationMs: 60000, endsAt: NOW } });
+    expect(isPastDeadline(state, NOW + LATE_GRACE_MS)).toBe(false);
+    expect(isPastDeadline(state, NOW + LATE_GRACE_MS + 1)).toBe(true);
+  });
+
+  it('does not treat closed submissions as late', () => {
+    expect(isPastDeadline(room({ isAcceptingAnswers: false }), NOW)).toBe(false);
+  });
+});
+
+describe('answerRejection', () => {
+  it('takes an answer in an open round', () => {
+    expect(answerRejection(room(), sam, 'My answer', NOW)).toBeNull();
+  });
+
+  it('refuses text that is missing, blank or too long', () => {
+    expect(answerRejection(room(), sam, undefined, NOW)).toBe('invalid');
+    expect(answerRejection(room(), sam, { text: 'My answer' }, NOW)).toBe('invalid');
+    expect(answerRejection(room(), sam, '   \n', NOW)).toBe('invalid');
+    expect(answerRejection(room(), sam, 'x'.repeat(MAX_ANSWER_LENGTH + 1), NOW)).toBe('invalid');
+    expect(answerRejection(room(), sam, 'x'.repeat(MAX_ANSWER_LENGTH), NOW)).toBeNull();
+  });
+
+  it('refuses every answer once the teacher closes submissions, late answers allowed or not', () => {
+    expect(answerRejection(room({ isAcceptingAnswers: false }), sam, 'My answer', NOW)).toBe('closed');
+    expect(answerRejection(room({ isAcceptingAnswers: false, allowLateSubmissions: true }), sam, 'My answer', NOW)).toBe('closed');
+  });
+
+  it('refuses answers after the countdown unless late answers are allowed', () => {
+    const timer = { durationMs: 60000, endsAt: NOW - LATE_GRACE_MS - 1 };
+    expect(answerRejection(room({ timer }), sam, 'My answer', NOW)).toBe('late');
+    expect(answerRejection(room({ timer, allowLateSubmissions: true }), sam, 'My answer', NOW)).toBeNull();
+  });
+
+  it('refuses answers while peer review is open', () => {
+    const peerReview = { perStudent: 2, assignments: {}, startedAt: 0, releaseComments: false };
+    expect(answerRejection(room({ peerReview }), sam, 'My answer', NOW)).toBe('peer_review');
+    expect(answerRejection(room({ peerReview: { ...peerReview, closedAt: 1 } }), sam, 'My answer', NOW)).toBeNull();
+  });
+
+  it('refuses answers from a login held for approval', () => {
+    expect(answerRejection(room(), { ...sam, approval: 'pending' }, 'My answer', NOW)).toBe('not_admitted');
+  });
+
+  it('refuses resubmissions when they are turned off, and unchanged ones always', () => {
+    expect(answerRejection(answered({ allowResubmission: false }), sam, 'Second go', NOW)).toBe('no_resubmission');
+    expect(answerRejection(answered(), sam, 'First go', NOW)).toBe('unchanged');
+  });
+});
+
+describe('buildResponse', () => {
+  it('keeps the earlier text as a revision and marks late answers', () => {
+    const state = answered({ timer: { durationMs: 60000, endsAt: NOW - LATE_GRACE_MS - 1 }, allowLateSubmissions: true });
+    const response = buildResponse(state, sam, 'Second go', NOW);
+    expect(response).toMatchObject({ id: 'r1', text: 'Second go', submittedAt: NOW, late: true, revisions: [{ text: 'First go', submittedAt: 10 }] });
+  });
+});
+
+describe('peer voting and review', () => {
+  const projected = (revealStep) => answered({ projectorDisplay: { type: 'answer', contentId: 'r2', revealStep } });
+
+  it('takes a vote on the projected answer until its mark is revealed', () => {
+    expect(applyPeerVote(projected(), sam, { responseId: 'r2', verdict: 'lifted', score: 9 }, NOW).peerVotes.s1)
+      .toEqual({ verdict: 'lifted', score: 4, votedAt: NOW });
+    expect(applyPeerVote(projected('score'), sam, { responseId: 'r2', verdict: 'lifted', score: 1 }, NOW)).toBeUndefined();
+  });
+
+  it('ignores votes on your own answer and unknown verdicts', () => {
+    expect(applyPeerVote(projected(), kim, { responseId: 'r2', verdict: 'lifted', score: 1 }, NOW)).toBeUndefined();
+    expect(applyPeerVote(projected(), sam, { responseId: 'r2', verdict: 'copied', score: 1 }, NOW)).toBeUndefined();
+  });
+
+  it('only takes reviews of assigned answers, scored from the ticked points', () => {
+    const state = answered({
+      markingScheme: [{ id: 'p1', text: 'Point one', marks: 1 }, { id: 'p2', text: 'Point two', marks: 2 }],
+      peerReview: { perStudent: 1, assignments: { s1: ['r2'], s2: ['r1'] }, startedAt: 0, releaseComments: false },
+    });
+    const reviewed = applyPeerReview(state, sam, { responseId: 'r2', matchedPoints: ['p2', 'nope'], comment: '  Clear  ' }, NOW);
+    expect(reviewed.peerReviews.s1).toEqual({ score: 2, matchedPoints: ['p2'], comment: 'Clear', submittedAt: NOW });
+    expect(applyPeerReview(state, sam, { responseId: 'r1', score: 2 }, NOW)).toBeUndefined();
+  });
+});
+
+describe('class list matching', () => {
+  it.each([
+    ['alice smith', 'm1'],
+    ['Alice Smtih', 'm1'],
+    ['bob', 'm2'],
+    ['Bob M', 'm2'],
+    ['zoe o neill', 'm3'],
+  ])('matches "%s"', (typed, id) => {
+    expect(matchClassMember(members, typed)?.id).toBe(id);
+  });
+
+  it.each(['xXbobXx', 'Alex', '4021', ''])('leaves "%s" for the teacher', (typed) => {
+    expect(matchClassMember(members, typed)).toBeUndefined();
+  });
+
+  it('links a matching name and holds any other', () => {
+    const state = room({ sessions: {}, classMembers: members });
+    const ids = { studentId: 's9', token: 't9' };
+    expect(newSession(state, 'alice', ids, NOW)).toMatchObject({ name: 'Alice Smith', memberId: 'm1', approval: undefined });
+    expect(newSession(state, 'Someone', ids, NOW)).toMatchObject({ name: 'Someone', approval: 'pending' });
+  });
+
+  it('cuts long names and gives a login only to a name that is text', () => {
+    const ids = { studentId: 's9', token: 't9' };
+    expect(newSession(room(), 'x'.repeat(500), ids, NOW).name).toBe('x'.repeat(MAX_NAME_LENGTH));
+    expect(newSession(room(), { name: 'Sam' }, ids, NOW)).toBeUndefined();
+    expect(newSession(room(), 42, ids, NOW)).toBeUndefined();
+  });
+
+  it('lets a held student claim only a name nobody has taken', () => {
+    const held = { ...sam, approval: 'pending' };
+    const state = room({ sessions: { s1: held, s2: { ...kim, memberId: 'm1' } }, classMembers: members });
+    expect(applyClaimName(state, held, 'm1')).toBeUndefined();
+    expect(applyClaimName(state, held, 'm2')).toMatchObject({ name: 'Bob Martin', memberId: 'm2', approval: undefined });
+  });
+});
+
+describe('scopeStateForStudent', () => {
+  it('sends only the student\'s own answer, without marks until results are released', () => {
+    const scoped = scopeStateForStudent(answered(), 's2');
+    expect(Object.keys(scoped.students)).toEqual(['r2']);
+    expect(scoped.students.r2.score).toBeNull();
+    expect(scopeStateForStudent(answered({ resultsRelease: { releasedAt: 1 } }), 's2').students.r2).toMatchObject({ score: 3, teacherComment: 'Good' });
+  });
+
+  it('sends a held student the unclaimed names and nothing else', () => {
+    const state = answered({ sessions: { s1: { ...sam, approval: 'pending' }, s2: { ...kim, memberId: 'm1' } }, classMembers: members });
+    const scoped = scopeStateForStudent(state, 's1');
+    expect(scoped.students).toEqual({});
+    expect(scoped.joinStatus.choices.map(c => c.id)).toEqual(['m2', 'm3']);
+  });
+});
@@ -1,25 +1,284 @@
 export type Role = 'teacher' | 'student' | 'projector' | null;
 
+export interface LiftedPhrase {
+  text: string;
+  start: number; // Character offsets into StudentResponse.text
+  end: number;
+}
+
+export interface LiftingAnalysis {
+  percentage: number; // Share of the answer's content words copied from the source, 0-100
+  phrases: LiftedPhrase[];
+  analysedAt: number;
+}
+
+export interface MarkingPoint {
+  id: string;
+  text: string; // A creditable point, e.g. an acceptable gloss of a key word
+  marks: number;
+}
+
+export interface StudentSession {
+  studentId: string;
+  token: string; // Secret held by the student's device, presented to rejoin
+  name: string; // Display name, disambiguated if already taken in the room
+  joinedAt: number;
+  memberId?: string; // The ClassMember this login belongs to, set by the teacher's device only
+  approval?: 'pending' | 'rejected'; // Set when the class has a list and the name didn't match it; unset once let in
+}
+
+// What a student sees of their own login, so a held name can be picked from the class list instead
+export interface JoinStatus {
+  name: string;
+  approval?: StudentSession['approval'];
+  choices?: { id: string; name: string }[]; // Unclaimed names on the class list, while held for approval
+}
+
+// A pupil on the teacher's class list. Progress is tracked against this rather than the typed name.
+export interface ClassMember {
+  id: string;
+  name: string;
+  candidateNumber?: string;
+  addedAt: number;
+}
+
+export interface ClassList {
+  className: string;
+  members: Record<string, ClassMember>;
+  updatedAt: number;
+}
+
+// Live connection info the host keeps per student. Not part of GameState, so heartbeats don't trigger syncs.
+export interface StudentPresence {
+  studentId: string;
+  connected: boolean;
+  typing: boolean;
+  lastSeen: number;
+}
+
+export type RosterStatus = 'joined' | 'typing' | 'submitted' | 'disconnected';
+
+export interface RosterEntry {
+  studentId: string;
+  name: string;
+  status: RosterStatus;
+  hasSubmitted: boolean;
+  lastSeen?: number;
+}
+
+// What a student device keeps in storage to rejoin after a refresh or dropped connection
+export interface SavedStudentSession {
+  roomCode: string;
+  studentId: string;
+  token: string;
+  name: string;
+}
+
 export interface StudentResponse {
   id: string;
+  studentId: string;
   studentName: string;
-  text: string;
+  text: string; // The latest version
   submittedAt: number;
+  late?: boolean; // Sent after the deadline, while the teacher was accepting late answers
+  revisions?: AnswerRevision[]; // Earlier versions, oldest first
   score: number | null; // 0 to maxScore, or null if ungraded
+  scoreSource?: 'teacher' | 'ai'; // 'ai' when the teacher accepted the AI suggestion as it stood
   aiFeedback?: string;
   aiSuggestedScore?: number;
+  lifting?: LiftingAnalysis; // Offline comparison against the source passage
+  aiMatchedPoints?: string[]; // MarkingPoint ids the AI found in the answer
+  aiConfidence?: number; // 0 to 1, how sure the AI was of its suggestion
+  aiGradedText?: string; // The text the AI suggestion was made for; a changed answer needs grading again
+  aiError?: AiGradingFailure; // Why the last AI grading attempt failed
+  teacherComment?: string; // Shown to the student once results are released
+  matchedPoints?: string[]; // MarkingPoint ids ticked by the teacher; score is derived from these
+  peerVotes?: Record<string, PeerVote>; // Classmates' votes while it was projected, keyed by voter studentId
+  peerReviews?: Record<string, PeerReview>; // Marks from the peer-assessment round, keyed by reviewer studentId
+}
+
+export interface PeerReview {
+  score: number; // 0 to maxScore; derived from matchedPoints when the question has a scheme
+  matchedPoints?: string[];
+  comment: string;
+  submittedAt: number;
+}
+
+// After submissions close, each student marks a few classmates' answers
+export interface PeerReviewRound {
+  perStudent: number; // Answers each student marks, and reviews each answer gets
+  assignments: Record<string, string[]>; // Reviewer studentId to the response ids they mark
+  startedAt: number;
+  closedAt?: number; // No more reviews accepted once set
+  releaseComments: boolean; // Authors may read the comments on their answer
+}
+
+// An answer a student device has been asked to mark, sent without the author's name
+export interface PeerReviewTask {
+  responseId: string;
+  text: string;
+  myReview?: PeerReview;
+}
+
+export type PeerVerdict = 'own_words' | 'partly_lifted' | 'lifted';
+
+export interface PeerVote {
+  verdict: PeerVerdict;
+  score: number; // Suggested mark, 0 to maxScore
+  votedAt: number;
+}
+
+// The projected answer as a student device sees it while the class votes
+export interface OpenPeerVote {
+  responseId: string;
+  text: string;
+  myVote?: PeerVote;
+}
+
+export interface PeerVoteTally {
+  counts: Record<PeerVerdict, number>;
+  total: number;
+  meanScore: number | null; // null until someone has voted
+}
+
+export interface AnswerRevision {
+  text: string;
+  submittedAt: number;
+}
+
+export type GradingFailureReason =
+  | 'missing_key'
+  | 'invalid_key'
+  | 'rate_limit'
+  | 'unavailable'
+  | 'network'
+  | 'malformed_json'
+  | 'out_of_range'
+  | 'provider_error';
+
+export interface AiGradingFailure {
+  reason: GradingFailureReason;
+  message: string;
+  failedAt: number;
+}
+
+export interface SourcePassage {
+  title: string;
+  text: string; // Full passage, one printed line per newline
+  targetLines?: { start: number; end: number }; // 1-based, inclusive lines the question refers to
 }
 
 export interface GameState {
   roomCode?: string; // The 4-character code for students to join
+  className?: string; // The teacher's name for the class, used to file rounds in the history
+  sessionId?: string; // Set when a class starts; groups its rounds in the history
+  roundId?: string; // Set when a round is resumed from the history, so archiving it again updates that entry
   prompt: string;
   maxScore: number; // Configurable max points for the current prompt
+  passage?: SourcePassage; // Source text the current prompt refers to
+  markingNotes?: string; // Teacher-only notes carried over from the question bank
+  markingScheme?: MarkingPoint[];
+  modelAnswer?: string; // Teacher-only until revealed on the projector
+  roundStartedAt?: number;
+  lesson?: ActiveLesson; // Set while working through a saved lesson
+  sessions?: Record<string, StudentSession>; // Host only, keyed by studentId
+  classMembers?: ClassMember[]; // Host only: class list names (no candidate numbers), so the server can match joining students while the teacher is away
   isAcceptingAnswers: boolean;
+  allowResubmission?: boolean; // false stops students changing an answer once submitted
+  timer?: RoundTimer;
+  allowLateSubmissions?: boolean; // Accept answers after the deadline, flagged as late
   students: Record<string, StudentResponse>;
-  projectorDisplay: {
-    type: 'prompt' | 'answer';
-    contentId?: string; // If displaying an answer
-  };
+  projectorDisplay: ProjectorDisplay;
+  responseCount?: number; // Set in scoped states where `students` is filtered
+  peerReview?: PeerReviewRound; // Host only; students get reviewTasks and receivedPeerComments instead
+  openVote?: OpenPeerVote; // Student scope only: the answer on the projector, while voting is open
+  reviewTasks?: PeerReviewTask[]; // Student scope only: answers to mark while peer review is open
+  receivedPeerComments?: string[]; // Student scope only: comments on their own answer, once released
+  joinStatus?: JoinStatus; // Student scope only: their login, and the names they may pick while it is held
+  voteTally?: PeerVoteTally; // Projector scope only: the class vote on the projected answer
+  resultsRelease?: ResultsRelease; // Set once the teacher lets students see their marks
+}
+
+// The teacher's verdict on an answer in a projected comparison
+export type ComparisonAnnotation = 'lifted' | 'own_words';
+
+// How far the discussion of a projected answer has got; each step keeps the earlier ones on screen
+export type RevealStep = 'answer' | 'score' | 'lifting' | 'model_answer';
+
+export interface ProjectorDisplay {
+  type: 'prompt' | 'answer' | 'comparison';
+  contentId?: string; // If displaying an answer
+  revealStep?: RevealStep; // If displaying an answer; unset means 'answer'
+  comparisonIds?: string[]; // If comparing: the answers side by side, in the teacher's order
+  annotations?: Record<string, ComparisonAnnotation>; // Keyed by response id
+  annotationsRevealed?: boolean; // The projector only sees annotations once revealed
+  archived?: ArchivedProjection; // If displaying an answer from a past round rather than this one
+}
+
+export interface ArchivedProjection {
+  prompt: string;
+  maxScore: number;
+  archivedAt: number;
+  response?: StudentResponse; // Host only; the projector gets it anonymised in `students`
+  modelAnswer?: string;
+}
+
+// A running countdown has endsAt; a paused one keeps what was left in remainingMs
+export interface RoundTimer {
+  durationMs: number;
+  endsAt?: number;
+  remainingMs?: number;
+}
+
+export interface ResultsRelease {
+  releasedAt: number;
+  showAiFeedback: boolean;
+}
+
+export interface SavedQuestion {
+  id: string;
+  prompt: string;
+  maxScore: number;
+  passage?: SourcePassage; // Includes the line reference via targetLines
+  markingNotes: string;
+  markingScheme?: MarkingPoint[];
+  modelAnswer?: string; // Shown to the class as the last step when discussing a projected answer
+  allowResubmission?: boolean; // Unset means allowed
+  timeLimitSeconds?: number; // Starts a countdown when posted
+  updatedAt: number;
+}
+
+export interface Lesson {
+  id: string;
+  title: string;
+  questionIds: string[]; // Ordered sequence of SavedQuestion ids
+  updatedAt: number;
+}
+
+export interface ActiveLesson {
+  id: string;
+  title: string;
+  questionIds: string[];
+  index: number; // Position of the question currently posted
+}
+
+export interface ArchivedRound {
+  id: string;
+  prompt: string;
+  maxScore: number;
+  passage?: SourcePassage;
+  markingNotes?: string;
+  markingScheme?: MarkingPoint[];
+  modelAnswer?: string;
+  questionId?: string;
+  lessonId?: string;
+  className?: string;
+  roomCode?: string;
+  sessionId?: string; // Rounds taught in the same sitting share this
+  students: Record<string, StudentResponse>;
+  sessions?: Record<string, StudentSession>; // Kept on the teacher's device so a resumed session recognises returning students
+  startedAt?: number;
+  archivedAt: number;
 }
 
 export interface LogEntry {
@@ -28,9 +287,21 @@ export interface LogEntry {
   message: string;
 }
 
+// Which role a synced state was scoped for (see services/stateScope.ts)
+export type SyncScope = 'student' | 'projector';
+
+// Why the teacher's device or the server refused an answer (see answerRejection in shared/roomRules.js)
+export type AnswerRejectionReason = 'invalid' | 'not_admitted' | 'closed' | 'peer_review' | 'late' | 'no_resubmission' | 'unchanged';
+
 // Network Message Types
 export type NetworkMessage = 
-  | { type: 'SYNC_STATE'; payload: GameState }
-  | { type: 'SUBMIT_ANSWER'; payload: { name: string; text: string } }
-  | { type: 'JOIN_REQUEST'; payload: { name: string } }
+  | { type: 'SYNC_STATE'; scope: SyncScope; payload: GameState }
+  | { type: 'SUBMIT_ANSWER'; payload: { token: string; text: string } }
+  | { type: 'JOIN_REQUEST'; payload: { name: string; token?: string } }
+  | { type: 'JOIN_ACCEPTED'; payload: { studentId: string; token: string; name: string } }
+  | { type: 'ANSWER_REJECTED'; payload: { reason: AnswerRejectionReason } }
+  | { type: 'PRESENCE'; payload: { token: string; typing: boolean } }
+  | { type: 'PEER_VOTE'; payload: { token: string; responseId: string; verdict: PeerVerdict; score: number } }
+  | { type: 'PEER_REVIEW'; payload: { token: string; responseId: string; score: number; matchedPoints?: string[]; comment: string } }
+  | { type: 'CLAIM_NAME'; payload: { token: string; memberId: string } }
   | { type: 'RESET_FORM' };
@@ -1,21 +1,41 @@
 import React, { useState, useEffect } from 'react';
 import { backend } from '../services/mockBackend';
-import { GameState } from '../types';
+import { GameState, StudentResponse, ComparisonAnnotation, PeerVerdict, PeerVoteTally } from '../types';
+import { PassageViewer } from '../components/PassageViewer';
+import { formatLineReference, getPassageExtract } from '../services/passageService';
+import { CountdownTimer } from '../components/CountdownTimer';
+import { HighlightedAnswer } from '../components/HighlightedAnswer';
+import { isRevealed } from '../services/stateScope';
+import { PEER_VERDICTS, PEER_VERDICT_LABELS } from '../services/peerVoting';
+
+// Tailwind needs the full class names written out
+const COMPARISON_COLUMNS: Record<number, string> = { 2: 'lg:grid-cols-2', 3: 'lg:grid-cols-3', 4: 'lg:grid-cols-2 xl:grid-cols-4' };
+
+const ANNOTATION_BADGES: Record<ComparisonAnnotation, { label: string; style: string }> = {
+  lifted: { label: 'Lifted', style: 'bg-red-100 text-red-800 border-red-300' },
+  own_words: { label: 'Own Words', style: 'bg-green-100 text-green-800 border-green-300' },
+};
 
 interface ProjectorViewProps {
   onClose?: () => void;
 }
 
 export const ProjectorView: React.FC<ProjectorViewProps> = ({ onClose }) => {
-  const [gameState, setGameState] = useState<GameState>(backend.getState());
+  const [gameState, setGameState] = useState<GameState>(backend.getProjectorState());
 
   useEffect(() => {
-    return backend.subscribe(setGameState);
+    return backend.subscribeProjector(setGameState);
   }, []);
 
   const displayType = gameState.projectorDisplay.type;
   const contentId = gameState.projectorDisplay.contentId;
   const studentAnswer = contentId ? gameState.students[contentId] : null;
+  const archived = gameState.projectorDisplay.archived;
+  const answerMaxScore = archived ? archived.maxScore : gameState.maxScore;
+  const compared = (gameState.projectorDisplay.comparisonIds || [])
+    .map(id => gameState.students[id])
+    .filter((r): r is StudentResponse => !!r);
+  const sourceExtract = getPassageExtract(gameState.passage);
 
   return (
     <div className="min-h-screen bg-black text-white flex flex-col overflow-hidden fixed inset-0 z-50">
@@ -42,7 +62,19 @@ export const ProjectorView: React.FC<ProjectorViewProps> = ({ onClose }) => {
       <div className="flex-1 flex items-center justify-center p-12 lg:p-24 relative">
         {displayType === 'prompt' && (
           <div className="max-w-6xl w-full text-center">
-            {gameState.prompt ? (
+            {gameState.prompt && gameState.passage ? (
+               <div className="animate-fade-in-up grid grid-cols-1 lg:grid-cols-2 gap-12 items-center text-left">
+                 <div>
+                   <h2 className="text-2xl text-gray-400 mb-6 font-light uppercase tracking-widest">
+                     Question{gameState.passage.targetLines && ` · ${formatLineReference(gameState.passage)}`}
+                   </h2>
+                   <p className="text-4xl md:text-5xl font-bold leading-tight text-white drop-shadow-2xl">
+                     {gameState.prompt}
+                   </p>
+                 </div>
+                 <PassageViewer passage={gameState.passage} variant="dark" className="max-h-[60vh] text-xl" />
+               </div>
+            ) : gameState.prompt ? (
                <div className="animate-fade-in-up">
                  <h2 className="text-3xl text-gray-400 mb-8 font-light uppercase tracking-widest">Question</h2>
                  <p className="text-5xl md:text-7xl font-bold leading-tight text-white drop-shadow-2xl">
@@ -62,23 +94,130 @@ export const ProjectorView: React.FC<ProjectorViewProps> = ({ onClose }) => {
              <div className="flex justify-between items-center mb-8 border-b-2 border-gray-100 pb-6">
                 <h2 className="text-3xl text-indigo-600 font-bold">Student Response</h2>
                 <div className="px-6 py-2 bg-gray-100 rounded-full text-xl font-medium text-gray-600">
-                  Anonymous Review
+                  {archived ? `From ${new Date(archived.archivedAt).toLocaleDateString()}` : 'Anonymous Review'}
                 </div>
              </div>
+             {archived && (
+               <p className="text-2xl text-gray-500 mb-6">Question: {archived.prompt}</p>
+             )}
              <p className="text-5xl md:text-6xl font-medium leading-normal mb-12">
-               "{studentAnswer.text}"
+               "{isRevealed(gameState.projectorDisplay, 'lifting')
+                 ? <HighlightedAnswer text={studentAnswer.text} phrases={studentAnswer.lifting?.phrases || []} />
+                 : studentAnswer.text}"
              </p>
-             <div className="flex justify-center">
-                <div className="text-gray-400 text-xl">Discuss: Is this in their own words?</div>
-             </div>
+             {(isRevealed(gameState.projectorDisplay, 'score') || isRevealed(gameState.projectorDisplay, 'lifting')) && (
+               <div className="flex justify-center gap-6 mb-8 animate-fade-in-up">
+                 {isRevealed(gameState.projectorDisplay, 'score') && (
+                   <div className="px-8 py-3 bg-indigo-50 rounded-2xl text-3xl font-bold text-indigo-700">
+                     {studentAnswer.score !== null ? `${studentAnswer.score} / ${answerMaxScore}` : 'Not marked yet'}
+                   </div>
+                 )}
+                 {isRevealed(gameState.projectorDisplay, 'lifting') && (
+                   <div className="px-8 py-3 bg-red-50 rounded-2xl text-3xl font-bold text-red-700">
+                     {studentAnswer.lifting ? `${studentAnswer.lifting.percentage}% lifted` : 'Not checked for lifting'}
+                   </div>
+                 )}
+               </div>
+             )}
+             {gameState.voteTally && (
+               <VoteTallyBar
+                 tally={gameState.voteTally}
+                 maxScore={gameState.maxScore}
+                 votingOpen={!isRevealed(gameState.projectorDisplay, 'score')}
+               />
+             )}
+             {isRevealed(gameState.projectorDisplay, 'model_answer') && gameState.modelAnswer ? (
+               <div className="border-t-2 border-gray-100 pt-8 animate-fade-in-up">
+                 <h3 className="text-2xl text-green-600 font-bold mb-4">Model Answer</h3>
+                 <p className="text-4xl font-medium leading-normal text-gray-800">{gameState.modelAnswer}</p>
+               </div>
+             ) : (
+               <div className="flex justify-center">
+                  <div className="text-gray-400 text-xl">Discuss: Is this in their own words?</div>
+               </div>
+             )}
+          </div>
+        )}
+
+        {displayType === 'comparison' && compared.length > 0 && (
+          <div className="w-full max-w-7xl animate-fade-in-up">
+            {sourceExtract && (
+              <div className="mb-8 text-center">
+                <h2 className="text-xl text-gray-400 mb-2 font-light uppercase tracking-widest">
+                  Source{gameState.passage?.targetLines && ` · ${formatLineReference(gameState.passage)}`}
+                </h2>
+                <p className="text-3xl font-serif italic text-amber-200">"{sourceExtract}"</p>
+              </div>
+            )}
+            <div className={`grid grid-cols-1 gap-6 ${COMPARISON_COLUMNS[compared.length] || ''}`}>
+              {compared.map((response, i) => {
+                const annotation = gameState.projectorDisplay.annotations?.[response.id];
+                return (
+                  <div key={response.id} className="bg-white text-gray-900 rounded-2xl p-8 shadow-2xl flex flex-col">
+                    <div className="flex justify-between items-center mb-4">
+                      <span className="text-2xl font-bold text-indigo-600">Answer {String.fromCharCode(65 + i)}</span>
+                      {annotation && (
+                        <span className={`px-4 py-1 rounded-full border-2 text-lg font-bold animate-scale-in ${ANNOTATION_BADGES[annotation].style}`}>
+                          {ANNOTATION_BADGES[annotation].label}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-2xl md:text-3xl font-medium leading-snug">"{response.text}"</p>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="text-center text-gray-400 text-xl mt-8">Compare: Which ones are in their own words?</div>
           </div>
         )}
       </div>
 
       {/* Bottom info ticker */}
-      <div className="p-6 text-center text-gray-600">
-        {Object.keys(gameState.students).length} Responses Submitted
+      <div className="p-6 flex justify-center items-center gap-8 text-gray-600">
+        <span>{gameState.responseCount ?? Object.keys(gameState.students).length} Responses Submitted</span>
+        {gameState.prompt && !gameState.isAcceptingAnswers ? (
+          <span className="text-2xl font-bold uppercase tracking-widest text-red-400">Submissions Closed</span>
+        ) : gameState.timer && (
+          <CountdownTimer timer={gameState.timer} variant="dark" className="text-5xl" />
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+const VERDICT_BAR_COLOURS: Record<PeerVerdict, string> = {
+  own_words: 'bg-green-500',
+  partly_lifted: 'bg-amber-400',
+  lifted: 'bg-red-500',
+};
+
+const VoteTallyBar: React.FC<{ tally: PeerVoteTally; maxScore: number; votingOpen: boolean }> = ({ tally, maxScore, votingOpen }) => (
+  <div className="mb-8">
+    <div className="flex justify-between items-end mb-2 text-xl text-gray-500">
+      <span>{votingOpen ? 'Class vote · vote on your device' : 'Class vote'}</span>
+      <span>
+        {tally.total} vote{tally.total === 1 ? '' : 's'}
+        {tally.meanScore !== null && ` · average mark ${tally.meanScore.toFixed(1)} / ${maxScore}`}
+      </span>
+    </div>
+    <div className="h-10 flex rounded-full overflow-hidden bg-gray-100">
+      {tally.total > 0 && PEER_VERDICTS.map(verdict => tally.counts[verdict] > 0 && (
+        <div
+          key={verdict}
+          className={`${VERDICT_BAR_COLOURS[verdict]} flex items-center justify-center text-white text-lg font-bold transition-all duration-500`}
+          style={{ width: `${(tally.counts[verdict] / tally.total) * 100}%` }}
+        >
+          {tally.counts[verdict]}
+        </div>
+      ))}
+    </div>
+    <div className="flex justify-center gap-6 mt-2 text-lg text-gray-500">
+      {PEER_VERDICTS.map(verdict => (
+        <span key={verdict} className="flex items-center gap-2">
+          <span className={`w-3 h-3 rounded-full ${VERDICT_BAR_COLOURS[verdict]}`} />
+          {PEER_VERDICT_LABELS[verdict]}
+        </span>
+      ))}
+    </div>
+  </div>
+);
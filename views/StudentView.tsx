@@ -1,12 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import { backend } from '../services/mockBackend';
-import { GameState, StudentResponse } from '../types';
+import { GameState, StudentResponse, PeerVerdict, PeerReviewTask, MarkingPoint, AnswerRejectionReason } from '../types';
 import { Button } from '../components/Button';
+import { PassageViewer } from '../components/PassageViewer';
+import { formatLineReference } from '../services/passageService';
+import { CountdownTimer, useRemainingMs } from '../components/CountdownTimer';
+import { PEER_VERDICTS, PEER_VERDICT_LABELS } from '../services/peerVoting';
+import { peerReviewScore, PEER_COMMENT_MAX_LENGTH } from '../services/peerReview';
+import { MAX_ANSWER_LENGTH, MAX_NAME_LENGTH } from '../shared/roomRules';
+
+// Give up waiting for the synced answer after this long, so a dropped connection doesn't leave the button spinning
+const SUBMIT_TIMEOUT_MS = 10000;
+
+const ANSWER_REJECTION_MESSAGES: Record<Exclude<AnswerRejectionReason, 'unchanged'>, string> = {
+  invalid: 'Your answer is empty or too long.',
+  not_admitted: "Your teacher hasn't let you in yet.",
+  closed: 'Submissions are closed, so your answer was not sent.',
+  peer_review: "Answers can't be changed while the class is marking them.",
+  late: "Time's up: late answers aren't being accepted.",
+  no_resubmission: 'Your teacher has turned off changing answers.',
+};
 
 export const StudentView: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(backend.getState());
   const [name, setName] = useState('');
   const [code, setCode] = useState('');
+  const [studentId, setStudentId] = useState('');
   const [hasJoined, setHasJoined] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [joinError, setJoinError] = useState('');
@@ -14,28 +33,79 @@ export const StudentView: React.FC = () => {
   const [answer, setAnswer] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false); 
+  const [submitError, setSubmitError] = useState('');
+  const [isEditing, setIsEditing] = useState(false); // Revising an answer already sent
+  const [voteVerdict, setVoteVerdict] = useState<PeerVerdict | null>(null);
+  const [voteScore, setVoteScore] = useState<number | null>(null);
 
   useEffect(() => {
     return backend.subscribe(setGameState);
   }, []);
 
+  // Rejoin automatically after a refresh or dropped connection
+  useEffect(() => {
+    const saved = backend.getSavedStudentSession();
+    if (saved) {
+      setName(saved.name);
+      setCode(saved.roomCode);
+      joinRoom(saved.roomCode, saved.name);
+    }
+  }, []);
+
   // Listen for specific Reset events from teacher
   useEffect(() => {
     return backend.subscribeReset(() => {
        setAnswer('');
        setIsSubmitted(false);
+       setIsEditing(false);
+       setSubmitError('');
+    });
+  }, []);
+
+  // The answer only counts as sent once the synced state has it; a refusal keeps the draft and says why
+  useEffect(() => {
+    return backend.subscribeAnswerRejected((reason) => {
+      setIsSubmitting(false);
+      if (reason !== 'unchanged') setSubmitError(ANSWER_REJECTION_MESSAGES[reason]);
     });
   }, []);
 
+  useEffect(() => {
+    if (!isSubmitting) return;
+    const mySubmission = (Object.values(gameState.students) as StudentResponse[]).find(s => s.studentId === studentId);
+    if (mySubmission?.text === answer) {
+      setIsSubmitting(false);
+      setIsSubmitted(true);
+      setIsEditing(false);
+    }
+  }, [gameState.students, isSubmitting, answer, studentId]);
+
+  useEffect(() => {
+    if (!isSubmitting) return;
+    const timeout = setTimeout(() => {
+      setIsSubmitting(false);
+      setSubmitError("Your answer hasn't reached your teacher. Check your connection and try again.");
+    }, SUBMIT_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [isSubmitting]);
+
   // Effect: When teacher resets round (students object clears), reset local form
   useEffect(() => {
-    const mySubmission = (Object.values(gameState.students) as StudentResponse[]).find(s => s.studentName === name);
+    const mySubmission = (Object.values(gameState.students) as StudentResponse[]).find(s => s.studentId === studentId);
     // If we were submitted, but now our submission is gone from the server state, reset.
     if (isSubmitted && !mySubmission) {
         setIsSubmitted(false);
+        setIsEditing(false);
         setAnswer(''); // Clear text for new round
     }
-  }, [gameState.students, isSubmitted, name]);
+  }, [gameState.students, isSubmitted, studentId]);
+
+  // Start each projected answer's ballot from this student's earlier vote on it, if any
+  const openVote = gameState.openVote;
+  useEffect(() => {
+    setVoteVerdict(openVote?.myVote?.verdict ?? null);
+    setVoteScore(openVote?.myVote?.score ?? null);
+  }, [openVote?.responseId, openVote?.myVote?.votedAt]);
 
   // Wake Lock for mobile devices (iPads)
   useEffect(() => {
@@ -63,14 +133,14 @@ export const StudentView: React.FC = () => {
     }
   }, [hasJoined]);
 
-  const handleJoin = async () => {
-    if (!name.trim() || !code.trim() || code.length !== 4) return;
-    
+  const joinRoom = async (roomCode: string, studentName: string) => {
     setIsJoining(true);
     setJoinError('');
     
     try {
-      await backend.joinGame(code, name);
+      const session = await backend.joinGame(roomCode, studentName);
+      setStudentId(session.studentId);
+      setName(session.name); // The teacher's device may have disambiguated it
       setHasJoined(true);
     } catch (e: any) {
       console.error(e);
@@ -80,19 +150,41 @@ export const StudentView: React.FC = () => {
     }
   };
 
+  const handleJoin = () => {
+    if (!name.trim() || !code.trim() || code.length !== 4) return;
+    joinRoom(code, name);
+  };
+
+  const resetJoin = () => {
+    backend.leaveGame();
+    setHasJoined(false);
+    setStudentId('');
+    setName('');
+    setAnswer('');
+    setIsSubmitted(false);
+    setIsEditing(false);
+    setSubmitError('');
+  };
+
+  const handleLeave = () => {
+    if (!confirm('Leave this class? You will need to join again.')) return;
+    resetJoin();
+  };
+
   const handleSubmit = () => {
     if (!answer.trim()) return;
     setIsSubmitting(true);
-    backend.sendAnswer(name, answer);
-    
-    // Simulate slight network delay for better UX feel
-    setTimeout(() => {
-        setIsSubmitted(true);
-        setIsSubmitting(false);
-    }, 500);
+    setSubmitError('');
+    backend.sendAnswer(answer);
   };
 
-  const mySubmission = (Object.values(gameState.students) as StudentResponse[]).find(s => s.studentName === name);
+  const mySubmission = (Object.values(gameState.students) as StudentResponse[]).find(s => s.studentId === studentId);
+
+  // The teacher's device has the final say; this only stops students sending answers that would be refused
+  const remainingMs = useRemainingMs(gameState.timer);
+  // Late answers are only for a countdown that ran out; a round the teacher closed takes none
+  const timeUp = remainingMs === 0;
+  const canSubmit = gameState.isAcceptingAnswers && (!timeUp || !!gameState.allowLateSubmissions);
 
   // Render: Join Screen
   if (!hasJoined) {
@@ -110,6 +202,7 @@ export const StudentView: React.FC = () => {
                   type="text"
                   placeholder="Your Name"
                   value={name}
+                  maxLength={MAX_NAME_LENGTH}
                   onChange={(e) => setName(e.target.value)}
                   className="w-full text-center text-lg border-2 border-gray-200 rounded-xl p-3 focus:ring-4 focus:ring-indigo-100 focus:border-indigo-500 outline-none transition-all mb-3"
                 />
@@ -139,13 +232,53 @@ export const StudentView: React.FC = () => {
     );
   }
 
+  // Render: Held because the name isn't on the class list
+  const joinStatus = gameState.joinStatus;
+  if (joinStatus?.approval) {
+    return (
+      <div className="min-h-screen bg-indigo-600 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-8 text-center space-y-4">
+          {joinStatus.approval === 'rejected' ? (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900">Name not recognised</h1>
+              <p className="text-gray-500">Your teacher couldn't match "{joinStatus.name}" to the class list. Join again with your name as it is on the register.</p>
+              <Button onClick={resetJoin} className="w-full py-3 text-lg">Join Again</Button>
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-bold text-gray-900">Which one are you?</h1>
+              <p className="text-gray-500">"{joinStatus.name}" isn't on the class list. Pick your name, or wait for your teacher to let you in.</p>
+              {joinStatus.choices && joinStatus.choices.length > 0 && (
+                <div className="grid grid-cols-2 gap-2 max-h-72 overflow-y-auto">
+                  {joinStatus.choices.map(choice => (
+                    <button
+                      key={choice.id}
+                      onClick={() => { if (confirm(`Join as ${choice.name}?`)) backend.claimName(choice.id); }}
+                      className="p-3 rounded-xl border-2 border-gray-200 text-gray-800 font-medium hover:border-indigo-500 hover:bg-indigo-50 transition-colors"
+                    >
+                      {choice.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p className="text-sm text-gray-400 animate-pulse">Waiting for your teacher...</p>
+              <button onClick={resetJoin} className="text-sm text-gray-500 underline hover:text-gray-700">Use a different name</button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // Render: Main Student Interface
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       <header className="bg-white border-b px-4 py-3 flex justify-between items-center sticky top-0 z-10">
         <div className="flex flex-col">
-            <span className="font-bold text-gray-900">{name}</span>
-            <span className="text-xs text-gray-400">Room: {code}</span>
+            <span className="font-bold text-gray-900">{joinStatus?.name || name}</span>
+            <span className="text-xs text-gray-400">
+              Room: {code} · <button onClick={handleLeave} className="underline hover:text-gray-600">Not you?</button>
+            </span>
         </div>
         <div className="flex items-center gap-2">
            {mySubmission?.score !== null && mySubmission?.score !== undefined && (
@@ -170,27 +303,142 @@ export const StudentView: React.FC = () => {
         ) : (
           <div className="space-y-8">
             <div className="bg-indigo-600 rounded-2xl p-6 text-white shadow-lg shadow-indigo-200">
-              <h3 className="text-indigo-200 text-sm font-bold uppercase tracking-wider mb-2">Question (Max {gameState.maxScore} Pts)</h3>
+              <h3 className="text-indigo-200 text-sm font-bold uppercase tracking-wider mb-2">
+                Question (Max {gameState.maxScore} Pts)
+                {gameState.passage?.targetLines && ` · Look at ${formatLineReference(gameState.passage)}`}
+              </h3>
               <p className="text-xl md:text-2xl font-medium leading-relaxed">{gameState.prompt}</p>
+              {gameState.timer && (
+                <div className="mt-4 inline-flex items-center gap-2 bg-white rounded-lg px-3 py-1">
+                  <span className="text-xs text-gray-400 uppercase font-bold">Time left</span>
+                  <CountdownTimer timer={gameState.timer} className="text-lg" />
+                </div>
+              )}
             </div>
 
+            {gameState.passage && (
+              <PassageViewer passage={gameState.passage} className="max-h-72 shadow-sm" />
+            )}
+
+            {gameState.reviewTasks && gameState.reviewTasks.length > 0 && (
+              <div className="bg-teal-50 rounded-2xl border border-teal-200 p-6 space-y-4 animate-fade-in-up">
+                <div>
+                  <h3 className="text-teal-700 text-sm font-bold uppercase tracking-wider">Mark your classmates' answers</h3>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {gameState.reviewTasks.filter(t => t.myReview).length} of {gameState.reviewTasks.length} marked. Names are hidden, and yours is hidden from them.
+                  </p>
+                </div>
+                {gameState.reviewTasks.map((task, i) => (
+                  <ReviewTaskCard
+                    key={task.responseId}
+                    task={task}
+                    label={`Answer ${String.fromCharCode(65 + i)}`}
+                    maxScore={gameState.maxScore}
+                    scheme={gameState.markingScheme}
+                  />
+                ))}
+              </div>
+            )}
+
+            {openVote && (
+              <div className="bg-amber-50 rounded-2xl border border-amber-200 p-6 space-y-4 animate-fade-in-up">
+                <div>
+                  <h3 className="text-amber-700 text-sm font-bold uppercase tracking-wider mb-2">Vote on the answer on screen</h3>
+                  <p className="text-gray-800 text-lg italic">"{openVote.text}"</p>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {PEER_VERDICTS.map(verdict => (
+                    <button
+                      key={verdict}
+                      onClick={() => setVoteVerdict(verdict)}
+                      className={`py-3 rounded-xl text-sm font-medium border transition-colors ${
+                        voteVerdict === verdict ? 'bg-amber-500 text-white border-amber-500' : 'bg-white text-gray-700 border-gray-200 hover:bg-amber-100'
+                      }`}
+                    >
+                      {PEER_VERDICT_LABELS[verdict]}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm text-gray-600">Suggested mark:</span>
+                  {Array.from({ length: gameState.maxScore + 1 }, (_, n) => (
+                    <button
+                      key={n}
+                      onClick={() => setVoteScore(n)}
+                      className={`w-10 h-10 rounded-lg text-sm font-bold border transition-colors ${
+                        voteScore === n ? 'bg-amber-500 text-white border-amber-500' : 'bg-white text-gray-700 border-gray-200 hover:bg-amber-100'
+                      }`}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-500">{openVote.myVote ? 'Vote sent. You can change it until the mark is revealed.' : 'Votes are anonymous.'}</span>
+                  <Button
+                    onClick={() => backend.sendPeerVote(openVote.responseId, voteVerdict!, voteScore!)}
+                    disabled={voteVerdict === null || voteScore === null}
+                    size="sm"
+                  >
+                    {openVote.myVote ? 'Update Vote' : 'Send Vote'}
+                  </Button>
+                </div>
+              </div>
+            )}
+
             <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
-              {isSubmitted || mySubmission ? (
+              {(isSubmitted || mySubmission) && !isEditing && !isSubmitting ? (
                 <div className="text-center py-8 animate-fade-in-up">
                   <div className="w-16 h-16 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto mb-4">
                     <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
                   </div>
                   <h3 className="text-xl font-bold text-gray-900 mb-2">Answer Submitted!</h3>
-                  <p className="text-gray-500 mb-6">Waiting for the teacher to review.</p>
+                  <p className="text-gray-500 mb-6">
+                    {gameState.resultsRelease ? 'Your teacher has released the results.' : 'Waiting for the teacher to review.'}
+                  </p>
                   
                   <div className="bg-gray-50 p-4 rounded-lg text-left border border-gray-100">
                     <span className="text-xs text-gray-400 uppercase font-bold">Your Answer:</span>
                     <p className="text-gray-800 mt-1">{mySubmission?.text || answer}</p>
                   </div>
+
+                  {gameState.resultsRelease && mySubmission && (
+                    <div className="mt-4 space-y-3 text-left">
+                      <div className="flex items-center justify-between bg-indigo-50 p-4 rounded-lg border border-indigo-100">
+                        <span className="text-xs text-indigo-400 uppercase font-bold">Your Mark</span>
+                        <span className="text-2xl font-bold text-indigo-700">
+                          {mySubmission.score !== null ? `${mySubmission.score} / ${gameState.maxScore}` : 'Not marked yet'}
+                        </span>
+                      </div>
+                      {mySubmission.teacherComment && (
+                        <div className="bg-white p-4 rounded-lg border border-gray-200">
+                          <span className="text-xs text-gray-400 uppercase font-bold">Teacher's Comment:</span>
+                          <p className="text-gray-800 mt-1">{mySubmission.teacherComment}</p>
+                        </div>
+                      )}
+                      {mySubmission.aiFeedback && (
+                        <div className="bg-purple-50 p-4 rounded-lg border border-purple-100">
+                          <span className="text-xs text-purple-400 uppercase font-bold">AI Feedback:</span>
+                          <p className="text-purple-800 mt-1">{mySubmission.aiFeedback}</p>
+                        </div>
+                      )}
+                    </div>
+                  )}
                   
-                  {gameState.isAcceptingAnswers && (
+                  {gameState.receivedPeerComments && gameState.receivedPeerComments.length > 0 && (
+                    <div className="mt-4 bg-teal-50 p-4 rounded-lg border border-teal-100 text-left">
+                      <span className="text-xs text-teal-500 uppercase font-bold">Classmates' Comments:</span>
+                      <ul className="mt-1 space-y-1">
+                        {gameState.receivedPeerComments.map((comment, i) => (
+                          <li key={i} className="text-teal-900">"{comment}"</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {canSubmit && gameState.allowResubmission !== false && (
                     <button 
-                      onClick={() => { setIsSubmitted(false); }}
+                      onClick={() => { setAnswer(mySubmission?.text || answer); setIsEditing(true); }}
                       className="mt-6 text-indigo-600 text-sm font-medium hover:underline"
                     >
                       Edit Submission
@@ -202,19 +450,21 @@ export const StudentView: React.FC = () => {
                   <label className="block text-sm font-medium text-gray-700">Write your answer in your own words</label>
                   <textarea
                     value={answer}
-                    onChange={(e) => setAnswer(e.target.value)}
-                    disabled={!gameState.isAcceptingAnswers}
+                    maxLength={MAX_ANSWER_LENGTH}
+                    onChange={(e) => { setAnswer(e.target.value); backend.notifyTyping(); }}
+                    disabled={!canSubmit || isSubmitting}
                     className="w-full h-40 p-4 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 resize-none text-lg"
                     placeholder="Type your response here..."
                   />
+                  {submitError && <p className="text-sm text-red-600">{submitError}</p>}
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-400">
-                      {gameState.isAcceptingAnswers ? 'Accepting Answers' : 'Submissions Closed'}
+                      {!canSubmit ? 'Submissions Closed' : timeUp ? "Time's up: answers now are marked late" : 'Accepting Answers'}
                     </span>
                     <Button 
                       onClick={handleSubmit} 
                       isLoading={isSubmitting}
-                      disabled={!gameState.isAcceptingAnswers || !answer.trim()}
+                      disabled={!canSubmit || !answer.trim()}
                       className="px-8 py-3 text-lg"
                     >
                       Submit Answer
@@ -228,4 +478,69 @@ export const StudentView: React.FC = () => {
       </main>
     </div>
   );
-};
\ No newline at end of file
+};
+
+const ReviewTaskCard: React.FC<{ task: PeerReviewTask; label: string; maxScore: number; scheme?: MarkingPoint[] }> = ({ task, label, maxScore, scheme }) => {
+  const [matched, setMatched] = useState<string[]>(task.myReview?.matchedPoints || []);
+  const [score, setScore] = useState<number | null>(task.myReview?.score ?? null);
+  const [comment, setComment] = useState(task.myReview?.comment || '');
+  const hasScheme = !!scheme?.length;
+  // Scheme questions score from the ticked points, as the teacher's device will
+  const mark = hasScheme ? peerReviewScore(0, matched, scheme, maxScore) : score;
+
+  const togglePoint = (id: string) => setMatched(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-gray-400 uppercase font-bold">{label}</span>
+        {task.myReview && <span className="text-xs text-teal-600 font-medium">✓ Marked</span>}
+      </div>
+      <p className="text-gray-800">"{task.text}"</p>
+      {hasScheme ? (
+        <div className="space-y-1">
+          {scheme!.map(point => (
+            <label key={point.id} className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+              <input type="checkbox" checked={matched.includes(point.id)} onChange={() => togglePoint(point.id)} className="mt-0.5 rounded text-teal-600" />
+              <span className="flex-1">{point.text}</span>
+              <span className="text-xs text-gray-400">{point.marks} mark{point.marks === 1 ? '' : 's'}</span>
+            </label>
+          ))}
+          <p className="text-xs text-gray-500 text-right">Mark: {mark} / {maxScore}</p>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-sm text-gray-600">Mark:</span>
+          {Array.from({ length: maxScore + 1 }, (_, n) => (
+            <button
+              key={n}
+              onClick={() => setScore(n)}
+              className={`w-9 h-9 rounded-lg text-sm font-bold border transition-colors ${
+                score === n ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-gray-700 border-gray-200 hover:bg-teal-50'
+              }`}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={comment}
+          maxLength={PEER_COMMENT_MAX_LENGTH}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="One-line comment, e.g. which words are still lifted"
+          className="flex-1 p-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <Button
+          size="sm"
+          onClick={() => backend.sendPeerReview(task.responseId, mark ?? 0, hasScheme ? matched : undefined, comment)}
+          disabled={mark === null || !comment.trim()}
+        >
+          {task.myReview ? 'Update' : 'Send'}
+        </Button>
+      </div>
+    </div>
+  );
+};
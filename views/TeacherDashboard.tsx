@@ -1,8 +1,30 @@
 import React, { useState, useEffect } from 'react';
-import { backend, ConnectionStatus } from '../services/mockBackend';
-import { GameState, StudentResponse, LogEntry } from '../types';
+import { backend, ConnectionStatus, MIN_COMPARED_ANSWERS, MAX_COMPARED_ANSWERS } from '../services/mockBackend';
+import { GameState, StudentResponse, LogEntry, SourcePassage, SavedQuestion, Lesson, ArchivedRound, MarkingPoint, StudentPresence, RosterEntry, StudentSession, ClassMember, GradingFailureReason, ComparisonAnnotation, RevealStep } from '../types';
 import { Button } from '../components/Button';
-import { evaluateAnswer } from '../services/geminiService';
+import { PassageViewer } from '../components/PassageViewer';
+import { QuestionBankModal } from '../components/QuestionBankModal';
+import { MarkingSchemeEditor } from '../components/MarkingSchemeEditor';
+import { GradingSettingsModal } from '../components/GradingSettingsModal';
+import { HighlightedAnswer } from '../components/HighlightedAnswer';
+import { HistoryBrowserModal } from '../components/HistoryBrowserModal';
+import { StudentProgressModal } from '../components/StudentProgressModal';
+import { cleanMarkingScheme } from '../services/markingScheme';
+import { buildRoster, heldSessions } from '../services/roster';
+import { unclaimedMembers } from '../services/classLists';
+import { computeAgreement, AgreementStats } from '../services/agreementStats';
+import { diffWords } from '../services/textDiff';
+import { questionBank } from '../services/questionBank';
+import { gradingQueue, needsGrading, GradingProgress, GradingJobStatus } from '../services/gradingQueue';
+import { gradingSettings } from '../services/gradingService';
+import { LIFTED_FLAG_PERCENT } from '../services/liftingService';
+import { clampLineRange, readPassageFile, formatLineReference } from '../services/passageService';
+import { roundFromState, buildCsv, buildSessionJson, buildReportHtml, exportFileName, downloadFile, openPrintableReport } from '../services/exportService';
+import { TIME_LIMIT_OPTIONS, formatTimeLimit, isTimerRunning } from '../services/roundTimer';
+import { CountdownTimer, useRemainingMs } from '../components/CountdownTimer';
+import { REVEAL_STEPS, isRevealed, getVoteTarget } from '../services/stateScope';
+import { tallyVotes, PEER_VERDICTS, PEER_VERDICT_LABELS } from '../services/peerVoting';
+import { averagePeerScore, isPeerReviewOpen, PEER_REVIEW_SIZES } from '../services/peerReview';
 import { ProjectorView } from './ProjectorView';
 
 export const TeacherDashboard: React.FC = () => {
@@ -10,13 +32,40 @@ export const TeacherDashboard: React.FC = () => {
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(backend.connectionStatus);
   const [newPrompt, setNewPrompt] = useState('');
   const [newMaxScore, setNewMaxScore] = useState(2);
+  const [newAllowResubmission, setNewAllowResubmission] = useState(true);
+  const [newTimeLimit, setNewTimeLimit] = useState(0); // Seconds; 0 for no countdown
+  const [newModelAnswer, setNewModelAnswer] = useState('');
+  const [passageTitle, setPassageTitle] = useState(backend.getState().passage?.title || '');
+  const [passageText, setPassageText] = useState(backend.getState().passage?.text || '');
+  const [targetLines, setTargetLines] = useState<{ start: number; end: number } | undefined>(backend.getState().passage?.targetLines);
+  const [showPassageEditor, setShowPassageEditor] = useState(false);
+  const [schemeDraft, setSchemeDraft] = useState<MarkingPoint[]>([]);
+  const [showSchemeEditor, setShowSchemeEditor] = useState(false);
   // Fix: Removed apiKey state
-  const [grading, setGrading] = useState<Record<string, boolean>>({}); 
+  const [gradingProgress, setGradingProgress] = useState<GradingProgress>(gradingQueue.getProgress());
+  const [autoGrade, setAutoGrade] = useState(gradingSettings.getSettings().autoGrade);
+  const [releaseAiFeedback, setReleaseAiFeedback] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]); // Answers picked for a projected comparison
   const [internalProjectorOpen, setInternalProjectorOpen] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [showLogs, setShowLogs] = useState(false);
+  const [showGradingSettings, setShowGradingSettings] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isResetting, setIsResetting] = useState(false);
+  const [showBank, setShowBank] = useState(false);
+  const [archivedRounds, setArchivedRounds] = useState<ArchivedRound[]>([]);
+  const [showArchive, setShowArchive] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const [className, setClassName] = useState(backend.getState().className || '');
+  const [presence, setPresence] = useState<Record<string, StudentPresence>>({});
+  const [resumeCode, setResumeCode] = useState('');
+  const [resumeKey, setResumeKey] = useState('');
+  const [needsLogin, setNeedsLogin] = useState(backend.needsLogin);
+  const [loginForm, setLoginForm] = useState({ username: '', password: '', error: '' });
+
+  // A resumed round brings its own class name
+  useEffect(() => { setClassName(gameState.className || ''); }, [gameState.className]);
 
   useEffect(() => {
     // Start hosting logic
@@ -34,16 +83,25 @@ export const TeacherDashboard: React.FC = () => {
     const unsubscribe = backend.subscribe(setGameState);
     // Subscribe to logs
     const unsubscribeLogs = backend.subscribeLogs(setLogs);
+    const unsubscribeArchive = backend.subscribeArchive(setArchivedRounds);
+    const unsubscribePresence = backend.subscribePresence(setPresence);
+    const unsubscribeGrading = gradingQueue.subscribe(setGradingProgress);
+    const unsubscribeGradingSettings = gradingSettings.subscribe(settings => setAutoGrade(settings.autoGrade));
 
     // Poll status for UI sync
     const interval = setInterval(() => {
         setConnectionStatus(backend.connectionStatus);
+        setNeedsLogin(backend.needsLogin);
     }, 2000);
 
     return () => {
         clearInterval(interval);
         unsubscribe();
         unsubscribeLogs();
+        unsubscribeArchive();
+        unsubscribePresence();
+        unsubscribeGrading();
+        unsubscribeGradingSettings();
     };
   }, []); 
 
@@ -74,19 +132,80 @@ export const TeacherDashboard: React.FC = () => {
     window.open(url.toString(), 'ProjectorView', `width=${width},height=${height},left=${left},top=${top},menubar=no,toolbar=no,location=no,status=no`);
   };
 
+  // Draft passage from the editor; the highlighted lines are kept for the next prompt too
+  const draftPassage: SourcePassage | undefined = passageText.trim()
+    ? { title: passageTitle.trim(), text: passageText, targetLines }
+    : undefined;
+
   const handleSetPrompt = () => {
     if (!newPrompt.trim()) return;
     const validMaxScore = Math.max(1, newMaxScore);
-    backend.setPrompt(newPrompt, validMaxScore);
+    backend.setPrompt(newPrompt, validMaxScore, {
+      passage: draftPassage,
+      markingScheme: cleanMarkingScheme(schemeDraft),
+      modelAnswer: newModelAnswer.trim() || undefined,
+      allowResubmission: newAllowResubmission,
+      timeLimitSeconds: newTimeLimit || undefined,
+    });
     setNewPrompt('');
+    setNewModelAnswer('');
+    setSchemeDraft([]);
+    setShowSchemeEditor(false);
+  };
+
+  const handlePassageFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = await readPassageFile(file);
+      setPassageText(text);
+      setPassageTitle(file.name.replace(/\.(txt|md|markdown)$/i, ''));
+      setTargetLines(undefined);
+    } catch (err) {
+      console.error(err);
+      alert('Could not read that file. Use a plain .txt or .md file.');
+    }
+  };
+
+  // Click a line to start a new highlight, shift-click to extend it
+  const handlePassageLineClick = (lineNumber: number, extend: boolean) => {
+    if (!draftPassage) return;
+    if (extend && targetLines) {
+      setTargetLines(clampLineRange(draftPassage, targetLines.start, lineNumber));
+    } else {
+      setTargetLines({ start: lineNumber, end: lineNumber });
+    }
+  };
+
+  const handleTargetLineInput = (field: 'start' | 'end', value: number) => {
+    if (!draftPassage || !value) return;
+    const current = targetLines || { start: value, end: value };
+    const next = { ...current, [field]: value };
+    setTargetLines(clampLineRange(draftPassage, next.start, next.end));
   };
 
   const handleResetRound = () => {
-      if (confirm("Reset Round: This will clear ALL student answers. Students will see a blank input box. Continue?")) {
+      if (confirm("Reset Round: This will archive and clear ALL student answers. Students will see a blank input box. Continue?")) {
           backend.resetRound();
       }
   };
 
+  // Exports work on the live round or any archived one
+  const handleExportCsv = (round: ArchivedRound = roundFromState(gameState)) => {
+      downloadFile(exportFileName(gameState.roomCode, 'csv'), buildCsv(round), 'text/csv;charset=utf-8');
+  };
+
+  const handleExportJson = () => {
+      downloadFile(exportFileName(gameState.roomCode, 'json'), buildSessionJson(gameState, sessionRounds), 'application/json');
+  };
+
+  const handlePrintReport = (round: ArchivedRound = roundFromState(gameState)) => {
+      if (!openPrintableReport(buildReportHtml(round, gameState.roomCode))) {
+        alert('Allow pop-ups for this page to open the printable report.');
+      }
+  };
+
   const handleNewClass = async () => {
       if (confirm("New Class: This will DISCONNECT all students and create a new room code. Continue?")) {
           setIsResetting(true);
@@ -95,15 +214,91 @@ export const TeacherDashboard: React.FC = () => {
       }
   };
 
-  const handleAiGrade = async (studentId: string, answer: string) => {
-    // Fix: Removed apiKey check and passed parameter
-    setGrading(prev => ({ ...prev, [studentId]: true }));
-    const result = await evaluateAnswer(gameState.prompt, answer, gameState.maxScore);
-    backend.updateStudentAiData(studentId, result.score, result.feedback);
-    setGrading(prev => ({ ...prev, [studentId]: false }));
+  const handleResumeRoom = async () => {
+      const code = resumeCode.trim().toUpperCase();
+      if (code.length !== 4) return;
+      setIsResetting(true);
+      const found = await backend.resumeRoom(code, resumeKey);
+      setIsResetting(false);
+      setConnectionStatus(backend.connectionStatus);
+      if (found) {
+        setResumeCode('');
+        setResumeKey('');
+      } else {
+        alert(`Could not resume room ${code}. Check the code and host key.`);
+      }
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const ok = await backend.login(loginForm.username, loginForm.password).catch(() => false);
+      if (!ok) {
+        setLoginForm({ ...loginForm, password: '', error: 'Incorrect username or password.' });
+        return;
+      }
+      setLoginForm({ username: '', password: '', error: '' });
+      setNeedsLogin(false);
+      await backend.startHosting();
+      setConnectionStatus(backend.connectionStatus);
+  };
+
+  const handlePostQuestion = (question: SavedQuestion) => {
+    backend.setPrompt(question.prompt, question.maxScore, {
+      passage: question.passage,
+      markingNotes: question.markingNotes || undefined,
+      markingScheme: question.markingScheme,
+      modelAnswer: question.modelAnswer,
+      allowResubmission: question.allowResubmission,
+      timeLimitSeconds: question.timeLimitSeconds,
+    });
+  };
+
+  const handleStartLesson = (lesson: Lesson) => {
+    const first = questionBank.getQuestion(lesson.questionIds[0]);
+    if (!first) return;
+    backend.startLesson(lesson, first);
+  };
+
+  const handleLessonStep = (direction: -1 | 1) => {
+    const lesson = gameState.lesson;
+    if (!lesson) return;
+    const index = lesson.index + direction;
+    if (index < 0 || index >= lesson.questionIds.length) return;
+    const question = questionBank.getQuestion(lesson.questionIds[index]);
+    if (!question) {
+      alert('That question has been deleted from the question bank.');
+      return;
+    }
+    backend.goToLessonQuestion(question, index);
+  };
+
+  const handleAiGrade = (studentId: string) => {
+    gradingQueue.enqueue([studentId]);
+  };
+
+  const handleToggleCompare = (id: string) => {
+    setCompareIds(ids => ids.includes(id)
+      ? ids.filter(i => i !== id)
+      : ids.length < MAX_COMPARED_ANSWERS ? [...ids, id] : ids);
   };
 
   const sortedStudents = (Object.values(gameState.students) as StudentResponse[]).sort((a, b) => b.submittedAt - a.submittedAt);
+  const ungraded = sortedStudents.filter(needsGrading);
+  const acceptable = sortedStudents.filter(s => s.score === null && s.aiSuggestedScore !== undefined && !needsGrading(s));
+  // The history holds every class; this sitting's rounds are the ones sharing its session id
+  const sessionRounds = archivedRounds.filter(round => round.sessionId && round.sessionId === gameState.sessionId);
+  // Agreement is judged over the whole session: this round plus the archived ones.
+  // A resumed round is also in the history, so its archived copy is left out.
+  const agreement = computeAgreement([
+    ...sortedStudents,
+    ...sessionRounds.filter(round => round.id !== gameState.roundId).flatMap(round => Object.values(round.students) as StudentResponse[]),
+  ]);
+  const isBatchGrading = Object.keys(gradingProgress.jobs).length > 0;
+  // Picks disappear when the round is reset
+  const comparePicks = compareIds.filter(id => gameState.students[id]);
+  const roster = buildRoster(gameState, presence);
+  const submittedCount = roster.filter(r => r.hasSubmitted).length;
+  const held = heldSessions(gameState);
 
   if (internalProjectorOpen) {
     return <ProjectorView onClose={() => setInternalProjectorOpen(false)} />;
@@ -167,6 +362,34 @@ export const TeacherDashboard: React.FC = () => {
         </div>
       </header>
 
+      {/* Teacher Login (server mode with TEACHER_PASSWORD set) */}
+      {needsLogin && (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black bg-opacity-50 p-4">
+          <form onSubmit={handleLogin} className="bg-white rounded-xl max-w-sm w-full p-6 shadow-2xl space-y-3">
+            <h2 className="text-xl font-bold text-gray-900">Teacher Login</h2>
+            <p className="text-sm text-gray-500">This server needs a teacher login before you can host a class.</p>
+            <input
+              type="text"
+              autoComplete="username"
+              value={loginForm.username}
+              onChange={(e) => setLoginForm({ ...loginForm, username: e.target.value })}
+              className="w-full border rounded-lg p-2"
+              placeholder="Username"
+            />
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={loginForm.password}
+              onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
+              className="w-full border rounded-lg p-2"
+              placeholder="Password"
+            />
+            {loginForm.error && <p className="text-sm text-red-600">{loginForm.error}</p>}
+            <Button type="submit" className="w-full" disabled={!loginForm.password}>Log In</Button>
+          </form>
+        </div>
+      )}
+
       {/* Logs Modal */}
       {showLogs && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-50 p-4">
@@ -186,6 +409,31 @@ export const TeacherDashboard: React.FC = () => {
         </div>
       )}
 
+      {showGradingSettings && <GradingSettingsModal onClose={() => setShowGradingSettings(false)} />}
+
+      {showHistory && (
+        <HistoryBrowserModal
+          onClose={() => setShowHistory(false)}
+          onExportCsv={handleExportCsv}
+          onPrintReport={handlePrintReport}
+        />
+      )}
+
+      {showProgress && (
+        <StudentProgressModal initialClassName={gameState.className} onClose={() => setShowProgress(false)} />
+      )}
+
+      {showBank && (
+        <QuestionBankModal
+          onClose={() => setShowBank(false)}
+          onPostQuestion={handlePostQuestion}
+          onStartLesson={handleStartLesson}
+          currentDraft={newPrompt.trim()
+            ? { prompt: newPrompt, maxScore: newMaxScore, passage: draftPassage, markingNotes: '', markingScheme: cleanMarkingScheme(schemeDraft), modelAnswer: newModelAnswer.trim() || undefined, allowResubmission: newAllowResubmission, timeLimitSeconds: newTimeLimit || undefined }
+            : { prompt: gameState.prompt, maxScore: gameState.maxScore, passage: gameState.passage, markingNotes: gameState.markingNotes || '', markingScheme: gameState.markingScheme, modelAnswer: gameState.modelAnswer, allowResubmission: gameState.allowResubmission }}
+        />
+      )}
+
       {/* Help Modal */}
       {showHelp && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
@@ -218,6 +466,44 @@ export const TeacherDashboard: React.FC = () => {
             <h2 className="text-lg font-semibold text-gray-900 mb-4">Controls</h2>
             
             <div className="space-y-4">
+               {/* Lesson Sequence */}
+               {gameState.lesson && (
+                  <div className="bg-indigo-50 rounded-lg p-3 border border-indigo-100">
+                     <div className="flex justify-between items-start mb-2">
+                        <div>
+                           <div className="text-xs font-bold text-indigo-400 uppercase">Lesson</div>
+                           <div className="text-sm font-semibold text-indigo-900">{gameState.lesson.title}</div>
+                        </div>
+                        <button onClick={() => backend.endLesson()} className="text-xs text-indigo-400 hover:text-indigo-700">End</button>
+                     </div>
+                     <div className="flex items-center gap-2">
+                        <Button variant="secondary" size="sm" onClick={() => handleLessonStep(-1)} disabled={gameState.lesson.index === 0}>← Prev</Button>
+                        <span className="flex-1 text-center text-sm text-indigo-700 font-medium">
+                           Q{gameState.lesson.index + 1} of {gameState.lesson.questionIds.length}
+                        </span>
+                        <Button variant="secondary" size="sm" onClick={() => handleLessonStep(1)} disabled={gameState.lesson.index >= gameState.lesson.questionIds.length - 1}>Next →</Button>
+                     </div>
+                  </div>
+               )}
+
+               {gameState.markingNotes && (
+                  <div className="bg-yellow-50 rounded-lg p-3 border border-yellow-100">
+                     <div className="text-xs font-bold text-yellow-700 uppercase mb-1">Marking Notes</div>
+                     <p className="text-sm text-yellow-900 whitespace-pre-wrap">{gameState.markingNotes}</p>
+                  </div>
+               )}
+
+               {gameState.modelAnswer && (
+                  <div className="bg-green-50 rounded-lg p-3 border border-green-100">
+                     <div className="text-xs font-bold text-green-700 uppercase mb-1">Model Answer</div>
+                     <p className="text-sm text-green-900 whitespace-pre-wrap">{gameState.modelAnswer}</p>
+                  </div>
+               )}
+
+               <Button variant="secondary" size="sm" onClick={() => setShowBank(true)} className="w-full">
+                  Question Bank &amp; Lessons
+               </Button>
+
                {/* Prompt Input */}
                <div>
                   <label className="text-sm font-medium text-gray-700 mb-1 block">New Prompt</label>
@@ -241,12 +527,137 @@ export const TeacherDashboard: React.FC = () => {
                         Post Prompt
                      </Button>
                   </div>
+                  <label className="flex items-center gap-2 mt-2 text-xs text-gray-600 cursor-pointer">
+                     <input type="checkbox" checked={newAllowResubmission} onChange={(e) => setNewAllowResubmission(e.target.checked)} className="rounded text-indigo-600" />
+                     Students may edit and resubmit
+                  </label>
+                  <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+                     Time limit
+                     <select value={newTimeLimit} onChange={(e) => setNewTimeLimit(parseInt(e.target.value))} className="border rounded p-0.5 text-xs">
+                        <option value={0}>None</option>
+                        {TIME_LIMIT_OPTIONS.map(seconds => <option key={seconds} value={seconds}>{formatTimeLimit(seconds)}</option>)}
+                     </select>
+                  </label>
+                  <textarea
+                    value={newModelAnswer}
+                    onChange={(e) => setNewModelAnswer(e.target.value)}
+                    className="w-full mt-2 p-2 border rounded-md text-xs h-14"
+                    placeholder="Model answer (optional), revealed on the projector when discussing an answer"
+                  />
+               </div>
+
+               {/* Marking Scheme */}
+               <div>
+                  <div className="flex justify-between items-center mb-1">
+                     <label className="text-sm font-medium text-gray-700">Marking Scheme</label>
+                     <button onClick={() => setShowSchemeEditor(!showSchemeEditor)} className="text-xs text-indigo-600 hover:underline">
+                        {showSchemeEditor ? 'Hide' : schemeDraft.length ? 'Edit' : 'Add'}
+                     </button>
+                  </div>
+                  {!showSchemeEditor && schemeDraft.length > 0 && (
+                     <p className="text-xs text-gray-500">{schemeDraft.length} creditable point{schemeDraft.length === 1 ? '' : 's'}</p>
+                  )}
+                  {showSchemeEditor && (
+                     <>
+                        <MarkingSchemeEditor points={schemeDraft} onChange={setSchemeDraft} />
+                        <p className="text-xs text-gray-400 mt-1">
+                           Score is the total of ticked points, capped at the max score ({newMaxScore}).
+                        </p>
+                     </>
+                  )}
+               </div>
+
+               {/* Source Passage */}
+               <div>
+                  <div className="flex justify-between items-center mb-1">
+                     <label className="text-sm font-medium text-gray-700">Source Passage</label>
+                     <button onClick={() => setShowPassageEditor(!showPassageEditor)} className="text-xs text-indigo-600 hover:underline">
+                        {showPassageEditor ? 'Hide' : draftPassage ? 'Edit' : 'Add'}
+                     </button>
+                  </div>
+                  {!showPassageEditor && draftPassage && (
+                     <p className="text-xs text-gray-500">
+                        {draftPassage.title || 'Untitled passage'}{targetLines ? ` (${formatLineReference(draftPassage)})` : ' (no lines highlighted)'}
+                     </p>
+                  )}
+                  {showPassageEditor && (
+                     <div className="space-y-2">
+                        <input
+                           type="text"
+                           value={passageTitle}
+                           onChange={(e) => setPassageTitle(e.target.value)}
+                           className="w-full border rounded p-2 text-sm"
+                           placeholder="Passage title"
+                        />
+                        <textarea
+                           value={passageText}
+                           onChange={(e) => { setPassageText(e.target.value); setTargetLines(undefined); }}
+                           className="w-full border-gray-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 min-h-[80px] p-2 text-sm border font-serif"
+                           placeholder="Paste the passage here, one printed line per line..."
+                        />
+                        <div className="flex justify-between items-center gap-2">
+                           <label className="text-xs text-indigo-600 cursor-pointer hover:underline">
+                              Load .txt / .md file
+                              <input type="file" accept=".txt,.md,.markdown,text/plain,text/markdown" onChange={handlePassageFile} className="hidden" />
+                           </label>
+                           {draftPassage && (
+                              <button onClick={() => { setPassageText(''); setPassageTitle(''); setTargetLines(undefined); }} className="text-xs text-gray-400 hover:text-red-600">
+                                 Clear
+                              </button>
+                           )}
+                        </div>
+                        {draftPassage && (
+                           <>
+                              <div className="flex items-center gap-2 text-xs text-gray-600">
+                                 <span>Lines</span>
+                                 <input
+                                    type="number"
+                                    min="1"
+                                    value={targetLines?.start ?? ''}
+                                    onChange={(e) => handleTargetLineInput('start', parseInt(e.target.value))}
+                                    className="w-14 border rounded p-1 text-center"
+                                 />
+                                 <span>to</span>
+                                 <input
+                                    type="number"
+                                    min="1"
+                                    value={targetLines?.end ?? ''}
+                                    onChange={(e) => handleTargetLineInput('end', parseInt(e.target.value))}
+                                    className="w-14 border rounded p-1 text-center"
+                                 />
+                                 {targetLines && (
+                                    <button onClick={() => setTargetLines(undefined)} className="text-gray-400 hover:text-gray-600 ml-auto">Clear lines</button>
+                                 )}
+                              </div>
+                              <PassageViewer
+                                 passage={draftPassage}
+                                 onLineClick={handlePassageLineClick}
+                                 className="max-h-64 text-sm"
+                              />
+                              <p className="text-xs text-gray-400">Click a line to highlight it, shift-click to extend.</p>
+                           </>
+                        )}
+                     </div>
+                  )}
                </div>
                
                <hr className="border-gray-100" />
                
                <div className="flex flex-col gap-2">
                   <h3 className="text-xs font-bold text-gray-500 uppercase">Session Management</h3>
+
+                  <input
+                    type="text"
+                    value={className}
+                    onChange={(e) => setClassName(e.target.value)}
+                    onBlur={() => backend.setClassName(className)}
+                    className="w-full border rounded p-1.5 text-sm"
+                    placeholder="Class name, e.g. 10B English"
+                    title="Rounds are filed under this name in the session history"
+                  />
+                  <Button variant="secondary" size="sm" onClick={() => setShowProgress(true)} className="w-full justify-center">
+                    Class List &amp; Progress
+                  </Button>
                   
                   {/* Distinct Reset Buttons */}
                   <Button 
@@ -254,7 +665,7 @@ export const TeacherDashboard: React.FC = () => {
                     onClick={handleResetRound} 
                     className="w-full justify-center text-sm border-orange-200 text-orange-800 bg-orange-50 hover:bg-orange-100"
                   >
-                     Reset Round (Clear Answers)
+                     Reset Round (Archive Answers)
                   </Button>
                   
                   <Button 
@@ -265,6 +676,37 @@ export const TeacherDashboard: React.FC = () => {
                   >
                      New Class (New Code)
                   </Button>
+
+                  {backend.isServerMode() && (
+                     <div className="space-y-2 pt-2">
+                        {backend.getHostKey() && (
+                           <p className="text-xs text-gray-500">
+                              Host key: <code className="font-mono bg-gray-100 px-1 rounded select-all">{backend.getHostKey()}</code>
+                              <span className="block text-gray-400">Needed to resume this room from another device.</span>
+                           </p>
+                        )}
+                        <div className="flex gap-2">
+                           <input
+                              type="text"
+                              value={resumeCode}
+                              maxLength={4}
+                              onChange={(e) => setResumeCode(e.target.value.toUpperCase())}
+                              className="w-20 border rounded p-1 text-center font-mono text-sm uppercase"
+                              placeholder="CODE"
+                           />
+                           <input
+                              type="text"
+                              value={resumeKey}
+                              onChange={(e) => setResumeKey(e.target.value)}
+                              className="flex-1 min-w-0 border rounded p-1 font-mono text-xs"
+                              placeholder="Host key"
+                           />
+                        </div>
+                        <Button variant="secondary" size="sm" onClick={handleResumeRoom} disabled={resumeCode.length !== 4 || !resumeKey.trim() || isResetting} className="w-full">
+                           Resume Room
+                        </Button>
+                     </div>
+                  )}
                </div>
                
                <div className="pt-2">
@@ -274,6 +716,7 @@ export const TeacherDashboard: React.FC = () => {
                </div>
                
                <div className="pt-2 text-center">
+                  <button onClick={() => setShowGradingSettings(true)} className="text-xs text-gray-400 underline mr-3">AI Settings</button>
                   <button onClick={() => setShowLogs(true)} className="text-xs text-gray-400 underline">System Logs</button>
                </div>
             </div>
@@ -283,8 +726,17 @@ export const TeacherDashboard: React.FC = () => {
              <h3 className="font-semibold text-gray-700">Quick Stats</h3>
              <div className="grid grid-cols-2 gap-4 mt-4">
                 <div className="text-center p-3 bg-gray-50 rounded">
-                  <div className="text-2xl font-bold text-gray-900">{sortedStudents.length}</div>
-                  <div className="text-xs text-gray-500">Responses</div>
+                  {roster.length > 0 ? (
+                    <>
+                      <div className="text-2xl font-bold text-gray-900">{submittedCount} <span className="text-base font-medium text-gray-400">of {roster.length}</span></div>
+                      <div className="text-xs text-gray-500">Submitted</div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-2xl font-bold text-gray-900">{sortedStudents.length}</div>
+                      <div className="text-xs text-gray-500">Responses</div>
+                    </>
+                  )}
                 </div>
                 <div className="text-center p-3 bg-gray-50 rounded">
                   <div className="text-2xl font-bold text-green-600">
@@ -294,6 +746,42 @@ export const TeacherDashboard: React.FC = () => {
                 </div>
              </div>
            </div>
+
+           {held.length > 0 && (
+             <PendingApprovalPanel held={held} choices={unclaimedMembers(gameState.classMembers, gameState.sessions)} />
+           )}
+
+           {roster.length > 0 && <RosterPanel roster={roster} />}
+
+           {agreement.compared > 0 && <AgreementPanel stats={agreement} />}
+
+           {archivedRounds.length > 0 && (
+             <div className="bg-white rounded-xl shadow p-6">
+               <div className="flex justify-between items-center">
+                 <button onClick={() => setShowArchive(!showArchive)} className="flex-1 flex justify-between items-center mr-3">
+                   <h3 className="font-semibold text-gray-700">Past Rounds ({sessionRounds.length})</h3>
+                   <span className="text-xs text-gray-400">{showArchive ? 'Hide' : 'Show'}</span>
+                 </button>
+                 <button onClick={() => setShowHistory(true)} className="text-xs text-indigo-600 hover:underline">All History</button>
+               </div>
+               {showArchive && (
+                 <ul className="mt-4 space-y-2 max-h-64 overflow-y-auto">
+                   {sessionRounds.map(round => (
+                     <li key={round.id} className="text-sm border-b border-gray-100 pb-2">
+                       <p className="text-gray-800 truncate" title={round.prompt}>{round.prompt || '(No prompt)'}</p>
+                       <p className="text-xs text-gray-400">
+                         {Object.keys(round.students).length} responses · {new Date(round.archivedAt).toLocaleString()}
+                       </p>
+                       <div className="flex gap-3 mt-1">
+                         <button onClick={() => handleExportCsv(round)} className="text-xs text-indigo-600 hover:underline">CSV</button>
+                         <button onClick={() => handlePrintReport(round)} className="text-xs text-indigo-600 hover:underline">Print</button>
+                       </div>
+                     </li>
+                   ))}
+                 </ul>
+               )}
+             </div>
+           )}
         </div>
 
         {/* Right Column: Responses */}
@@ -302,15 +790,108 @@ export const TeacherDashboard: React.FC = () => {
             <div>
                  <h2 className="text-xl font-bold text-gray-900">Student Responses ({sortedStudents.length})</h2>
                  <p className="text-sm text-gray-500 mt-1">Prompt: {gameState.prompt || "(None)"}</p>
+                 {gameState.passage && (
+                   <p className="text-xs text-gray-400 mt-0.5">
+                     Passage: {gameState.passage.title || 'Untitled'}{gameState.passage.targetLines ? `, ${formatLineReference(gameState.passage)}` : ''}
+                   </p>
+                 )}
+                 <p className="text-xs text-gray-400 mt-0.5">
+                   Resubmission {gameState.allowResubmission === false ? 'off' : 'on'} ·{' '}
+                   <button onClick={() => backend.setAllowResubmission(gameState.allowResubmission === false)} className="underline hover:text-gray-600">
+                     {gameState.allowResubmission === false ? 'Allow' : 'Lock answers'}
+                   </button>
+                 </p>
             </div>
-            {gameState.projectorDisplay.type === 'answer' && (
+            <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 text-xs text-purple-700 cursor-pointer" title="Send each answer to the AI grader as it arrives">
+              <input
+                type="checkbox"
+                checked={autoGrade}
+                onChange={(e) => gradingSettings.update({ autoGrade: e.target.checked })}
+                className="rounded text-purple-600"
+              />
+              Auto-grade
+            </label>
+            {ungraded.length > 0 && !isBatchGrading && (
+              <Button variant="ghost" size="sm" onClick={() => gradingQueue.enqueue(ungraded.map(s => s.id))} className="text-xs text-purple-600 hover:bg-purple-50">
+                Grade All Ungraded ({ungraded.length})
+              </Button>
+            )}
+            {acceptable.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => backend.acceptAllAiSuggestions()} className="text-xs text-purple-600 hover:bg-purple-50" title="Use the AI's mark for every answer you haven't marked">
+                Accept All AI ({acceptable.length})
+              </Button>
+            )}
+            {sortedStudents.length > 0 && (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => handleExportCsv()} className="text-xs">Export CSV</Button>
+                <Button variant="ghost" size="sm" onClick={handleExportJson} className="text-xs">Export JSON</Button>
+                <Button variant="ghost" size="sm" onClick={() => handlePrintReport()} className="text-xs">Print Report</Button>
+              </>
+            )}
+            {gameState.passage && sortedStudents.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => backend.reanalyseLifting()} className="text-xs text-amber-700 hover:bg-amber-50">
+                Re-check Lifting
+              </Button>
+            )}
+            {gameState.projectorDisplay.type !== 'prompt' && (
               <span className="text-sm text-green-600 flex items-center bg-green-50 px-3 py-1 rounded-full border border-green-200">
                 <span className="w-2 h-2 bg-green-500 rounded-full mr-2 animate-pulse"></span>
                 Projecting
               </span>
             )}
+            </div>
           </div>
 
+          {gameState.prompt && <RoundTimerBar gameState={gameState} />}
+
+          {gameState.projectorDisplay.type === 'answer' && <RevealPanel gameState={gameState} />}
+
+          {sortedStudents.length >= 2 && (!gameState.isAcceptingAnswers || gameState.peerReview) && (
+            <PeerReviewBar gameState={gameState} />
+          )}
+
+          {(comparePicks.length > 0 || gameState.projectorDisplay.type === 'comparison') && (
+            <ComparisonPanel gameState={gameState} picks={comparePicks} onClearPicks={() => setCompareIds([])} />
+          )}
+
+          {sortedStudents.length > 0 && (
+            gameState.resultsRelease ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-center justify-between text-sm">
+                <span className="text-green-800">
+                  Results released to students{gameState.resultsRelease.showAiFeedback ? ', with AI feedback' : ''}. New marks and comments appear for them as you make them.
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => backend.withdrawResults()} className="text-xs text-green-800 shrink-0">Withdraw</Button>
+              </div>
+            ) : (
+              <div className="bg-white border border-gray-200 rounded-lg p-3 flex items-center justify-between gap-4 text-sm">
+                <span className="text-gray-500">Students can't see their marks until you release them.</span>
+                <div className="flex items-center gap-3 shrink-0">
+                  <label className="flex items-center gap-1.5 text-xs text-gray-600 cursor-pointer">
+                    <input type="checkbox" checked={releaseAiFeedback} onChange={(e) => setReleaseAiFeedback(e.target.checked)} className="rounded text-indigo-600" />
+                    Include AI feedback
+                  </label>
+                  <Button size="sm" onClick={() => backend.releaseResults(releaseAiFeedback)}>Release Results</Button>
+                </div>
+              </div>
+            )
+          )}
+
+          {isBatchGrading && gradingProgress.total > 1 && (
+            <div className="bg-purple-50 border border-purple-100 rounded-lg p-3 flex items-center gap-4">
+              <div className="flex-1">
+                <div className="flex justify-between text-xs text-purple-800 mb-1">
+                  <span>AI grading {gradingProgress.done} of {gradingProgress.total}</span>
+                  {gradingProgress.failed > 0 && <span className="text-red-600">{gradingProgress.failed} failed</span>}
+                </div>
+                <div className="h-2 bg-purple-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-purple-500 transition-all" style={{ width: `${(gradingProgress.done / gradingProgress.total) * 100}%` }} />
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => gradingQueue.cancel()} className="text-xs text-purple-700">Cancel</Button>
+            </div>
+          )}
+
           <div className="space-y-4">
             {sortedStudents.length === 0 ? (
               <div className="bg-white rounded-xl shadow p-12 text-center text-gray-400 border border-dashed border-gray-300">
@@ -322,11 +903,18 @@ export const TeacherDashboard: React.FC = () => {
                   key={student.id} 
                   student={student}
                   maxScore={gameState.maxScore}
+                  markingScheme={gameState.markingScheme}
                   isProjected={gameState.projectorDisplay.contentId === student.id}
-                  grading={!!grading[student.id]}
+                  isCompared={comparePicks.includes(student.id)}
+                  canCompare={comparePicks.length < MAX_COMPARED_ANSWERS}
+                  onToggleCompare={() => handleToggleCompare(student.id)}
+                  aiStatus={gradingProgress.jobs[student.id]}
                   onProject={() => backend.setProjectorView('answer', student.id)}
-                  onAiGrade={() => handleAiGrade(student.id, student.text)}
+                  onAiGrade={() => handleAiGrade(student.id)}
+                  onAcceptAi={() => backend.acceptAiSuggestion(student.id)}
+                  onComment={(comment) => backend.updateStudentComment(student.id, comment)}
                   onScore={(score) => backend.updateStudentScore(student.id, score)}
+                  onMatchedPoints={(pointIds) => backend.updateStudentMatchedPoints(student.id, pointIds)}
                 />
               ))
             )}
@@ -340,12 +928,36 @@ export const TeacherDashboard: React.FC = () => {
 const StudentResponseCard: React.FC<{
   student: StudentResponse;
   maxScore: number;
+  markingScheme?: MarkingPoint[];
   isProjected: boolean;
-  grading: boolean;
+  isCompared: boolean;
+  canCompare: boolean; // False once the comparison is full
+  aiStatus?: GradingJobStatus; // Set while the answer is waiting for or being graded
   onProject: () => void;
+  onToggleCompare: () => void;
   onAiGrade: () => void;
+  onAcceptAi: () => void;
+  onComment: (comment: string) => void;
   onScore: (n: number) => void;
-}> = ({ student, maxScore, isProjected, grading, onProject, onAiGrade, onScore }) => {
+  onMatchedPoints: (pointIds: string[]) => void;
+}> = ({ student, maxScore, markingScheme, isProjected, isCompared, canCompare, aiStatus, onProject, onToggleCompare, onAiGrade, onAcceptAi, onComment, onScore, onMatchedPoints }) => {
+  const ticked = student.matchedPoints || [];
+  // Saved on blur, so each keystroke isn't synced to the student
+  const [comment, setComment] = useState(student.teacherComment || '');
+  useEffect(() => { setComment(student.teacherComment || ''); }, [student.teacherComment]);
+  const grading = !!aiStatus;
+  const peerReviews = Object.values(student.peerReviews || {});
+  // Suggestions made for an earlier version of the answer can't be accepted, as in acceptAllAiSuggestions
+  const aiStale = student.aiGradedText !== undefined && student.aiGradedText !== student.text;
+  const aiBadge = aiStatus === 'queued' ? { label: 'AI queued', style: 'bg-gray-100 text-gray-500' }
+    : aiStatus === 'grading' ? { label: 'AI grading…', style: 'bg-purple-100 text-purple-700 animate-pulse' }
+    : student.aiError ? { label: 'AI failed', style: 'bg-red-100 text-red-700' }
+    : !needsGrading(student) ? { label: 'AI graded', style: 'bg-purple-50 text-purple-600' }
+    : null;
+  const togglePoint = (pointId: string) => {
+    onMatchedPoints(ticked.includes(pointId) ? ticked.filter(id => id !== pointId) : [...ticked, pointId]);
+  };
+
   return (
     <div className={`bg-white rounded-xl shadow-sm border transition-all ${isProjected ? 'ring-2 ring-indigo-500 border-indigo-500' : 'border-gray-200'}`}>
       <div className="p-5">
@@ -364,8 +976,18 @@ const StudentResponseCard: React.FC<{
                 {student.score} / {maxScore}
               </span>
             )}
+            {aiBadge && <span className={`px-2 py-0.5 rounded text-xs ${aiBadge.style}`}>{aiBadge.label}</span>}
+            {student.late && <span className="px-2 py-0.5 rounded text-xs bg-orange-100 text-orange-800" title="Sent after the deadline">Late</span>}
           </div>
-          <div className="flex gap-1">
+          <div className="flex gap-1 items-center">
+             <button
+                onClick={onToggleCompare}
+                disabled={!isCompared && !canCompare}
+                title={isCompared || canCompare ? 'Pick for a side-by-side comparison' : `Up to ${MAX_COMPARED_ANSWERS} answers can be compared`}
+                className={`px-2 py-1 rounded-lg text-xs font-medium transition-colors disabled:opacity-40 ${isCompared ? 'bg-indigo-100 text-indigo-700' : 'text-gray-400 hover:text-indigo-600 hover:bg-gray-100'}`}
+             >
+               {isCompared ? '✓ Compare' : 'Compare'}
+             </button>
              <button 
                 onClick={onProject}
                 title="Show on Projector"
@@ -379,17 +1001,104 @@ const StudentResponseCard: React.FC<{
           </div>
         </div>
 
-        <p className="text-gray-800 text-lg mb-4">{student.text}</p>
+        <p className="text-gray-800 text-lg mb-4">
+          <HighlightedAnswer text={student.text} phrases={student.lifting?.phrases || []} />
+        </p>
+
+        {student.revisions && student.revisions.length > 0 && <RevisionHistory response={student} />}
 
-        {student.aiFeedback && (
-          <div className="mb-4 p-3 bg-purple-50 rounded-lg border border-purple-100 text-sm">
-            <div className="flex items-center gap-2 mb-1 text-purple-700 font-medium">
-              <span>AI Suggestion: {student.aiSuggestedScore}/{maxScore}</span>
+        {student.peerVotes && Object.keys(student.peerVotes).length > 0 && (
+          <PeerVoteSummary response={student} maxScore={maxScore} />
+        )}
+
+        {(student.aiFeedback || student.aiError || student.lifting || peerReviews.length > 0) && (
+          <div className="mb-4 grid gap-2 sm:grid-cols-2">
+            {student.aiError && !grading && (
+              <div className="p-3 bg-red-50 rounded-lg border border-red-100 text-sm">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="font-medium text-red-700">{AI_FAILURE_LABELS[student.aiError.reason]}</span>
+                  <button onClick={onAiGrade} className="text-xs font-medium text-red-700 hover:underline">Retry</button>
+                </div>
+                <p className="text-red-600">{student.aiError.message}</p>
+              </div>
+            )}
+            {student.aiFeedback && (
+              <div className="p-3 bg-purple-50 rounded-lg border border-purple-100 text-sm">
+                <div className="flex items-center gap-2 mb-1 text-purple-700 font-medium">
+                  <span>AI Suggestion: {student.aiSuggestedScore}/{maxScore}</span>
+                  {student.aiConfidence !== undefined && (
+                    <span className="text-xs font-normal text-purple-500">{Math.round(student.aiConfidence * 100)}% sure</span>
+                  )}
+                  {aiStale ? (
+                    <button onClick={onAiGrade} className="ml-auto text-xs font-medium text-purple-600 hover:underline" title="The answer changed after this suggestion was made">Regrade</button>
+                  ) : student.score !== student.aiSuggestedScore && (
+                    <button onClick={onAcceptAi} className="ml-auto text-xs font-medium text-purple-600 hover:underline">Accept</button>
+                  )}
+                  {student.score === student.aiSuggestedScore && student.scoreSource === 'ai' && (
+                    <span className="ml-auto text-xs font-normal text-purple-500">Accepted</span>
+                  )}
+                </div>
+                <p className="text-purple-800">{student.aiFeedback}</p>
+              </div>
+            )}
+            {student.lifting && (
+              <div className={`p-3 rounded-lg border text-sm ${student.lifting.percentage >= LIFTED_FLAG_PERCENT ? 'bg-red-50 border-red-100' : student.lifting.percentage > 0 ? 'bg-amber-50 border-amber-100' : 'bg-green-50 border-green-100'}`}>
+                <div className="font-medium text-gray-700 mb-1">Lifting: {student.lifting.percentage}%</div>
+                <p className="text-gray-600">
+                  {student.lifting.phrases.length === 0
+                    ? 'No phrases copied from the source.'
+                    : `${student.lifting.phrases.length} lifted phrase${student.lifting.phrases.length === 1 ? '' : 's'}: ${student.lifting.phrases.map(p => `"${p.text}"`).join(', ')}`}
+                </p>
+              </div>
+            )}
+            {peerReviews.length > 0 && (
+              <div className="p-3 bg-teal-50 rounded-lg border border-teal-100 text-sm">
+                <div className="font-medium text-teal-700 mb-1">
+                  Peer Mark: {averagePeerScore(student.peerReviews)!.toFixed(1)}/{maxScore}
+                  <span className="ml-2 text-xs font-normal text-teal-500">{peerReviews.length} review{peerReviews.length === 1 ? '' : 's'}</span>
+                </div>
+                <ul className="space-y-0.5 text-teal-900">
+                  {peerReviews.map((review, i) => (
+                    <li key={i}><span className="text-teal-500">{review.score}:</span> {review.comment}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {markingScheme && markingScheme.length > 0 && (
+          <div className="mb-4 space-y-1">
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-gray-500 font-medium uppercase">Marking Scheme</span>
             </div>
-            <p className="text-purple-800">{student.aiFeedback}</p>
+            {markingScheme.map(point => (
+              <label key={point.id} className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={ticked.includes(point.id)}
+                  onChange={() => togglePoint(point.id)}
+                  className="mt-1 rounded text-indigo-600"
+                />
+                <span className="flex-1">{point.text}</span>
+                <span className="text-xs text-gray-400 whitespace-nowrap">{point.marks} mk</span>
+                {student.aiMatchedPoints?.includes(point.id) && (
+                  <span className="text-xs px-1.5 rounded bg-purple-100 text-purple-700" title="The AI found this point">AI</span>
+                )}
+              </label>
+            ))}
           </div>
         )}
 
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          onBlur={() => { if (comment.trim() !== (student.teacherComment || '')) onComment(comment); }}
+          placeholder="Comment for the student (shown when results are released)"
+          rows={2}
+          className="w-full mb-3 p-2 text-sm border border-gray-200 rounded-lg resize-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+
         <div className="flex flex-wrap items-center justify-between border-t border-gray-100 pt-3 mt-2 gap-2">
            <div className="flex items-center gap-2 flex-wrap">
              <span className="text-xs text-gray-500 font-medium uppercase mr-2">Grade:</span>
@@ -421,4 +1130,436 @@ const StudentResponseCard: React.FC<{
       </div>
     </div>
   );
+};
+
+const AI_FAILURE_LABELS: Record<GradingFailureReason, string> = {
+  missing_key: 'No API key set',
+  invalid_key: 'API key rejected',
+  rate_limit: 'Rate limited by the AI provider',
+  unavailable: 'AI service unavailable',
+  network: 'Could not reach the AI service',
+  malformed_json: 'Unreadable AI reply',
+  out_of_range: 'AI score out of range',
+  provider_error: 'AI grading failed',
+};
+
+// How the class voted on a projected answer, against the teacher's own mark
+const PeerVoteSummary: React.FC<{ response: StudentResponse; maxScore: number }> = ({ response, maxScore }) => {
+  const tally = tallyVotes(response.peerVotes);
+  const difference = response.score !== null && tally.meanScore !== null ? tally.meanScore - response.score : null;
+  return (
+    <div className="mb-4 p-3 bg-amber-50 rounded-lg border border-amber-100 text-sm">
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-xs font-bold text-amber-700 uppercase">Class Vote ({tally.total})</span>
+        <span className="text-xs text-amber-800">
+          Average {tally.meanScore!.toFixed(1)} / {maxScore}
+          {difference !== null && (
+            Math.abs(difference) < 0.5
+              ? ' · agrees with your mark'
+              : ` · ${Math.abs(difference).toFixed(1)} ${difference > 0 ? 'above' : 'below'} your ${response.score}`
+          )}
+        </span>
+      </div>
+      <div className="flex gap-3 text-xs text-gray-600">
+        {PEER_VERDICTS.map(verdict => (
+          <span key={verdict}>{PEER_VERDICT_LABELS[verdict]}: <strong>{tally.counts[verdict]}</strong></span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Earlier versions of an answer, each shown as a diff against the latest
+const RevisionHistory: React.FC<{ response: StudentResponse }> = ({ response }) => {
+  const revisions = response.revisions || [];
+  const [open, setOpen] = useState(false);
+  const [compareIndex, setCompareIndex] = useState(revisions.length - 1);
+  const earlier = revisions[Math.min(compareIndex, revisions.length - 1)];
+  const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="mb-4 text-sm">
+      <button onClick={() => setOpen(!open)} className="text-xs text-gray-500 hover:text-gray-700">
+        Edited {revisions.length} time{revisions.length === 1 ? '' : 's'}, latest at {formatTime(response.submittedAt)} · {open ? 'Hide changes' : 'Show changes'}
+      </button>
+      {open && earlier && (
+        <div className="mt-2 p-3 bg-gray-50 rounded-lg border border-gray-100">
+          <div className="flex flex-wrap gap-1 mb-2">
+            {revisions.map((revision, i) => (
+              <button
+                key={revision.submittedAt}
+                onClick={() => setCompareIndex(i)}
+                className={`px-2 py-0.5 rounded text-xs ${i === compareIndex ? 'bg-indigo-600 text-white' : 'bg-white border text-gray-600 hover:bg-gray-100'}`}
+              >
+                v{i + 1} · {formatTime(revision.submittedAt)}
+              </button>
+            ))}
+            <span className="px-2 py-0.5 text-xs text-gray-400">→ latest</span>
+          </div>
+          <p className="text-gray-700 leading-relaxed">
+            {diffWords(earlier.text, response.text).map((part, i) => (
+              <span
+                key={i}
+                className={part.type === 'added' ? 'bg-green-100 text-green-800' : part.type === 'removed' ? 'bg-red-100 text-red-700 line-through' : ''}
+              >
+                {part.text}
+              </span>
+            ))}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ROSTER_BADGES: Record<RosterEntry['status'], string> = {
+  joined: 'bg-gray-100 text-gray-600',
+  typing: 'bg-blue-100 text-blue-700',
+  submitted: 'bg-green-100 text-green-700',
+  disconnected: 'bg-red-100 text-red-700',
+};
+
+const formatLastSeen = (timestamp?: number) => {
+  if (!timestamp) return 'never';
+  const seconds = Math.round((Date.now() - timestamp) / 1000);
+  if (seconds < 10) return 'just now';
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.floor(seconds / 60)}m ago`;
+};
+
+// Teacher vs AI marks, to judge whether the AI grader can be trusted
+const AgreementPanel: React.FC<{ stats: AgreementStats }> = ({ stats }) => {
+  const scores = Array.from({ length: stats.maxScore + 1 }, (_, i) => i);
+  const peak = Math.max(1, ...stats.matrix.flat());
+  return (
+    <div className="bg-white rounded-xl shadow p-6">
+      <h3 className="font-semibold text-gray-700">AI Agreement</h3>
+      <p className="text-xs text-gray-400 mt-1">
+        {stats.compared} answer{stats.compared === 1 ? '' : 's'} marked by both this session
+        {stats.accepted > 0 && `, ${stats.accepted} accepted from the AI not counted`}
+      </p>
+      <div className="grid grid-cols-3 gap-4 mt-4">
+        <div className="text-center p-3 bg-gray-50 rounded">
+          <div className="text-2xl font-bold text-gray-900">{Math.round(stats.exactMatchRate * 100)}%</div>
+          <div className="text-xs text-gray-500">Exact Match</div>
+        </div>
+        <div className="text-center p-3 bg-gray-50 rounded">
+          <div className="text-2xl font-bold text-gray-900">{Math.round(stats.withinOneRate * 100)}%</div>
+          <div className="text-xs text-gray-500">Within 1 Mark</div>
+        </div>
+        <div className="text-center p-3 bg-gray-50 rounded">
+          <div className="text-2xl font-bold text-gray-900">{stats.meanAbsoluteDifference.toFixed(2)}</div>
+          <div className="text-xs text-gray-500">Mean Difference</div>
+        </div>
+      </div>
+      <table className="mt-4 mx-auto text-xs text-center">
+        <thead>
+          <tr>
+            <th className="p-1 text-gray-400 font-normal text-right">Teacher ↓ AI →</th>
+            {scores.map(ai => <th key={ai} className="w-8 p-1 text-gray-500">{ai}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {scores.map(teacher => (
+            <tr key={teacher}>
+              <th className="p-1 text-gray-500 text-right">{teacher}</th>
+              {scores.map(ai => {
+                const count = stats.matrix[teacher][ai];
+                return (
+                  <td
+                    key={ai}
+                    className={`w-8 h-8 border border-gray-100 ${teacher === ai ? 'font-bold text-green-800' : 'text-gray-700'}`}
+                    style={{ backgroundColor: count ? `rgba(${teacher === ai ? '34,197,94' : '239,68,68'},${0.15 + 0.5 * count / peak})` : undefined }}
+                  >
+                    {count || ''}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const PeerReviewBar: React.FC<{ gameState: GameState }> = ({ gameState }) => {
+  const [perStudent, setPerStudent] = useState(PEER_REVIEW_SIZES[0]);
+  const round = gameState.peerReview;
+
+  if (!round) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-3 flex items-center justify-between gap-4 text-sm">
+        <span className="text-gray-500">Peer assessment: each student marks classmates' answers anonymously against the scheme.</span>
+        <div className="flex items-center gap-2 shrink-0">
+          <select value={perStudent} onChange={(e) => setPerStudent(parseInt(e.target.value))} className="border rounded p-0.5 text-xs">
+            {PEER_REVIEW_SIZES.map(n => <option key={n} value={n}>{n} answers each</option>)}
+          </select>
+          <Button size="sm" onClick={() => backend.startPeerReview(perStudent)}>Start Peer Review</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const assigned = (Object.values(round.assignments) as string[][]).reduce((acc, ids) => acc + ids.length, 0);
+  const received = (Object.values(gameState.students) as StudentResponse[])
+    .reduce((acc, s) => acc + Object.keys(s.peerReviews || {}).length, 0);
+  const open = isPeerReviewOpen(round);
+  return (
+    <div className="bg-teal-50 border border-teal-100 rounded-lg p-3 flex items-center justify-between gap-4 text-sm">
+      <span className="text-teal-900">
+        Peer review {open ? 'open' : 'closed'}: {received} of {assigned} reviews in
+      </span>
+      <div className="flex items-center gap-3 shrink-0">
+        <label className="flex items-center gap-1.5 text-xs text-teal-800 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={round.releaseComments}
+            onChange={(e) => backend.setPeerCommentsReleased(e.target.checked)}
+            className="rounded text-teal-600"
+          />
+          Show comments to authors
+        </label>
+        {open && <Button variant="secondary" size="sm" onClick={() => backend.closePeerReview()} className="text-xs">Close Peer Review</Button>}
+      </div>
+    </div>
+  );
+};
+
+const REVEAL_LABELS: Record<RevealStep, string> = {
+  answer: 'Answer',
+  score: 'Mark',
+  lifting: 'Lifted words',
+  model_answer: 'Model answer',
+};
+
+// Steps the class through a projected answer, one reveal at a time
+const RevealPanel: React.FC<{ gameState: GameState }> = ({ gameState }) => {
+  const display = gameState.projectorDisplay;
+  const projected = display.archived?.response || (display.contentId ? gameState.students[display.contentId] : undefined);
+  const current = display.revealStep || 'answer';
+  const next = REVEAL_STEPS[REVEAL_STEPS.indexOf(current) + 1];
+  const modelAnswer = display.archived ? display.archived.modelAnswer : gameState.modelAnswer;
+  const unavailable = (step: RevealStep) => step === 'model_answer' && !modelAnswer;
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3 text-sm flex flex-wrap items-center justify-between gap-3">
+      <span className="text-indigo-900 truncate">
+        Projecting {projected ? `${projected.studentName}'s answer` : 'an answer'}
+        {display.archived && ` from ${new Date(display.archived.archivedAt).toLocaleDateString()}`}
+        {getVoteTarget(gameState) && ` · class voting (${Object.keys(projected?.peerVotes || {}).length} so far)`}
+      </span>
+      <div className="flex items-center gap-1">
+        {REVEAL_STEPS.map((step, i) => (
+          <button
+            key={step}
+            onClick={() => backend.setRevealStep(step)}
+            disabled={unavailable(step)}
+            title={unavailable(step) ? 'No model answer for this question' : undefined}
+            className={`px-2 py-0.5 rounded text-xs font-medium border disabled:opacity-40 ${
+              isRevealed(display, step) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {i + 1}. {REVEAL_LABELS[step]}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        {next && !unavailable(next) && (
+          <Button size="sm" onClick={() => backend.setRevealStep(next)}>Reveal {REVEAL_LABELS[next]}</Button>
+        )}
+        <Button variant="secondary" size="sm" onClick={() => backend.setProjectorView('prompt')} className="text-xs">Back to Question</Button>
+      </div>
+    </div>
+  );
+};
+
+const COMPARISON_LABELS: Record<ComparisonAnnotation, string> = {
+  lifted: 'Lifted',
+  own_words: 'Own words',
+};
+
+const ComparisonPanel: React.FC<{ gameState: GameState; picks: string[]; onClearPicks: () => void }> = ({ gameState, picks, onClearPicks }) => {
+  const display = gameState.projectorDisplay;
+  const projecting = display.type === 'comparison';
+  const shownIds = projecting ? display.comparisonIds || [] : [];
+  // Picks differ from what is on screen, so projecting them again would change the comparison
+  const picksChanged = picks.length !== shownIds.length || picks.some((id, i) => id !== shownIds[i]);
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3 text-sm space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-indigo-900">
+          {projecting ? 'Comparing on the projector' : `${picks.length} of ${MIN_COMPARED_ANSWERS}–${MAX_COMPARED_ANSWERS} answers picked to compare`}
+        </span>
+        <div className="flex items-center gap-2 shrink-0">
+          {picks.length > 0 && <Button variant="ghost" size="sm" onClick={onClearPicks} className="text-xs">Clear Picks</Button>}
+          {picksChanged && (
+            <Button size="sm" onClick={() => backend.projectComparison(picks)} disabled={picks.length < MIN_COMPARED_ANSWERS}>
+              Project Comparison
+            </Button>
+          )}
+          {projecting && (
+            <Button variant="secondary" size="sm" onClick={() => backend.setProjectorView('prompt')} className="text-xs">Back to Question</Button>
+          )}
+        </div>
+      </div>
+      {projecting && (
+        <>
+          <ul className="space-y-2">
+            {shownIds.filter(id => gameState.students[id]).map((id, i) => (
+              <li key={id} className="flex items-center gap-3 bg-white rounded p-2">
+                <span className="font-bold text-indigo-600 w-5">{String.fromCharCode(65 + i)}</span>
+                <span className="flex-1 truncate text-gray-700" title={gameState.students[id].text}>
+                  {gameState.students[id].studentName}: {gameState.students[id].text}
+                </span>
+                {(Object.keys(COMPARISON_LABELS) as ComparisonAnnotation[]).map(annotation => {
+                  const active = display.annotations?.[id] === annotation;
+                  return (
+                    <button
+                      key={annotation}
+                      onClick={() => backend.annotateComparison(id, active ? undefined : annotation)}
+                      className={`px-2 py-0.5 rounded text-xs font-medium border ${
+                        active
+                          ? annotation === 'lifted' ? 'bg-red-100 text-red-800 border-red-200' : 'bg-green-100 text-green-800 border-green-200'
+                          : 'text-gray-500 border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      {COMPARISON_LABELS[annotation]}
+                    </button>
+                  );
+                })}
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-1.5 text-xs text-indigo-900 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!display.annotationsRevealed}
+              onChange={(e) => backend.revealComparisonAnnotations(e.target.checked)}
+              className="rounded text-indigo-600"
+            />
+            Show annotations on the projector
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+const RoundTimerBar: React.FC<{ gameState: GameState }> = ({ gameState }) => {
+  const [startSeconds, setStartSeconds] = useState(TIME_LIMIT_OPTIONS[1]);
+  const { timer, isAcceptingAnswers } = gameState;
+  const remaining = useRemainingMs(timer);
+  const running = isTimerRunning(timer);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-3 flex flex-wrap items-center justify-between gap-3 text-sm">
+      <div className="flex items-center gap-3">
+        {timer && isAcceptingAnswers ? (
+          <CountdownTimer timer={timer} className="text-xl" />
+        ) : (
+          <span className={isAcceptingAnswers ? 'text-green-700' : 'text-red-700 font-medium'}>
+            {isAcceptingAnswers ? 'Accepting answers' : 'Submissions closed'}
+          </span>
+        )}
+        {timer && isAcceptingAnswers && (
+          running
+            ? <Button variant="ghost" size="sm" onClick={() => backend.pauseTimer()} className="text-xs">Pause</Button>
+            : remaining > 0 && <Button variant="ghost" size="sm" onClick={() => backend.resumeTimer()} className="text-xs">Resume</Button>
+        )}
+        {timer && (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => backend.extendTimer(30)} className="text-xs">+30s</Button>
+            <Button variant="ghost" size="sm" onClick={() => backend.extendTimer(60)} className="text-xs">+1m</Button>
+          </>
+        )}
+        {!timer && isAcceptingAnswers && (
+          <span className="flex items-center gap-1">
+            <select value={startSeconds} onChange={(e) => setStartSeconds(parseInt(e.target.value))} className="border rounded p-0.5 text-xs">
+              {TIME_LIMIT_OPTIONS.map(seconds => <option key={seconds} value={seconds}>{formatTimeLimit(seconds)}</option>)}
+            </select>
+            <Button variant="ghost" size="sm" onClick={() => backend.startTimer(startSeconds)} className="text-xs">Start Timer</Button>
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1.5 text-xs text-gray-600 cursor-pointer" title="Answers after the deadline are kept and marked late instead of refused">
+          <input
+            type="checkbox"
+            checked={!!gameState.allowLateSubmissions}
+            onChange={(e) => backend.setAllowLateSubmissions(e.target.checked)}
+            className="rounded text-indigo-600"
+          />
+          Accept late answers
+        </label>
+        {isAcceptingAnswers
+          ? <Button variant="secondary" size="sm" onClick={() => backend.closeSubmissions()} className="text-xs">Close Now</Button>
+          : <Button variant="secondary" size="sm" onClick={() => backend.reopenSubmissions()} className="text-xs">Reopen</Button>}
+      </div>
+    </div>
+  );
+};
+
+// Names that didn't match the class list wait here until the teacher links, adds or turns them away
+const PendingApprovalPanel: React.FC<{ held: StudentSession[]; choices: ClassMember[] }> = ({ held, choices }) => {
+  return (
+    <div className="bg-amber-50 rounded-xl shadow p-6 border border-amber-200">
+      <h3 className="font-semibold text-amber-900">Waiting for Approval ({held.length})</h3>
+      <p className="text-xs text-amber-700 mt-1">These names aren't on the class list. They can't answer until you let them in.</p>
+      <ul className="mt-4 space-y-3">
+        {held.map(session => (
+          <li key={session.studentId} className="text-sm">
+            <div className="flex justify-between items-center gap-2">
+              <span className="font-medium text-gray-900 truncate">"{session.name}"</span>
+              <span className="flex gap-2 shrink-0">
+                <button onClick={() => backend.approveStudent(session.studentId)} className="text-xs text-green-700 hover:underline" title="Add this name to the class list">
+                  Add to List
+                </button>
+                <button onClick={() => backend.rejectStudent(session.studentId)} className="text-xs text-red-600 hover:underline">
+                  Reject
+                </button>
+              </span>
+            </div>
+            {choices.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && backend.approveStudent(session.studentId, e.target.value)}
+                className="w-full border rounded p-1 text-xs mt-1 bg-white"
+              >
+                <option value="">Let in as…</option>
+                {choices.map(m => <option key={m.id} value={m.id}>{m.name}{m.candidateNumber ? ` (${m.candidateNumber})` : ''}</option>)}
+              </select>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const RosterPanel: React.FC<{ roster: RosterEntry[] }> = ({ roster }) => {
+  return (
+    <div className="bg-white rounded-xl shadow p-6">
+      <h3 className="font-semibold text-gray-700">Class Roster ({roster.length})</h3>
+      <ul className="mt-4 space-y-1 max-h-80 overflow-y-auto">
+        {roster.map(entry => (
+          <li key={entry.studentId} className="flex items-center justify-between gap-2 text-sm py-1">
+            <span className="text-gray-800 truncate">{entry.name}</span>
+            <span className="flex items-center gap-2 shrink-0">
+              {entry.status === 'disconnected' && (
+                <span className="text-xs text-gray-400" title="Last seen">{formatLastSeen(entry.lastSeen)}</span>
+              )}
+              {entry.status === 'disconnected' && entry.hasSubmitted && (
+                <span className="text-xs text-green-600" title="Submitted before disconnecting">✓</span>
+              )}
+              <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${ROSTER_BADGES[entry.status]} ${entry.status === 'typing' ? 'animate-pulse' : ''}`}>
+                {entry.status}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
 };
\ No newline at end of file